@@ -1,5 +1,10 @@
 import { DiagnosticApp } from "@/components/diagnostic-app";
+import { RosProvider } from "@/components/ros-provider";
 
 export default function Home() {
-  return <DiagnosticApp />;
+  return (
+    <RosProvider>
+      <DiagnosticApp />
+    </RosProvider>
+  );
 }
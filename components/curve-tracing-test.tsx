@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, useCallback, useMemo, useRef } from "react";
+import { CheckCircle, XCircle } from "lucide-react";
+import { ShapeTracingTest } from "./shape-tracing-test";
+import { CurveTracingResult, ShapeTracingResult } from "@/lib/test-results";
+import {
+  TracingShapeDefinition,
+  resolveTracingShape,
+} from "@/lib/tracing-shapes";
+
+interface CurveTracingTestProps {
+  onTestComplete: (result: CurveTracingResult) => void;
+  /** Built-in shape names or custom SVG paths, traced in order. */
+  shapes?: string[];
+  /** Time allowed per shape, in ms. */
+  tracingDuration?: number;
+  /** Longest side of each traced shape, in mm. */
+  shapeSizeMm?: number;
+}
+
+const DEFAULT_SHAPES = ["circle", "spiral", "figure-eight", "zig-zag"];
+
+// Only colours the summary screen; the report applies the plan's thresholds
+const PASSING_ACCURACY = 70;
+
+export function CurveTracingTest({
+  onTestComplete,
+  shapes = DEFAULT_SHAPES,
+  tracingDuration = 15000,
+  shapeSizeMm = 48,
+}: CurveTracingTestProps) {
+  const [shapeIndex, setShapeIndex] = useState(0);
+  const [result, setResult] = useState<CurveTracingResult | null>(null);
+  const tracingsRef = useRef<ShapeTracingResult[]>([]);
+
+  // Entries that are neither a known shape nor a path are left out
+  const definitions = useMemo(
+    () =>
+      shapes.flatMap((shape): TracingShapeDefinition[] => {
+        try {
+          return [resolveTracingShape(shape)];
+        } catch (error) {
+          console.warn("Skipping tracing shape:", error);
+          return [];
+        }
+      }),
+    [shapes]
+  );
+
+  const handleTracingComplete = useCallback(
+    (tracing: ShapeTracingResult) => {
+      tracingsRef.current = [...tracingsRef.current, tracing];
+
+      if (tracingsRef.current.length < definitions.length) {
+        setShapeIndex(tracingsRef.current.length);
+        return;
+      }
+
+      const tracings = tracingsRef.current;
+      const curveResult: CurveTracingResult = {
+        tracings,
+        overallScore: Math.round(
+          tracings.reduce((sum, item) => sum + item.accuracy, 0) /
+            tracings.length
+        ),
+      };
+
+      setResult(curveResult);
+      onTestComplete(curveResult);
+    },
+    [definitions, onTestComplete]
+  );
+
+  if (result) {
+    const passed = result.tracings.every(
+      (tracing) => tracing.accuracy >= PASSING_ACCURACY
+    );
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          {passed ? (
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="w-16 h-16 text-red-600 mx-auto" />
+          )}
+          <h2
+            className={`text-2xl font-bold ${
+              passed ? "text-green-900" : "text-red-900"
+            }`}
+          >
+            Curve Tracing {result.overallScore}%
+          </h2>
+          <div className="space-y-1 text-sm text-gray-600">
+            {result.tracings.map((tracing, index) => (
+              <p key={index}>
+                {definitions[index].title}: {tracing.accuracy}%
+              </p>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const definition = definitions[shapeIndex];
+  if (!definition) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <p className="text-gray-600">No valid tracing shapes in this plan.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="pointer-events-none fixed top-2 right-4 z-10 text-xs text-gray-500">
+        Shape {shapeIndex + 1}/{definitions.length}
+      </div>
+      {/* Keyed so each shape starts with a fresh canvas and timer */}
+      <ShapeTracingTest
+        key={shapeIndex}
+        shape={definition.shape}
+        path={definition.path}
+        title={definition.title}
+        onComplete={handleTracingComplete}
+        testDuration={tracingDuration}
+        shapeSizeMm={shapeSizeMm}
+      />
+    </div>
+  );
+}
@@ -1,54 +1,55 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { useRos } from "@/lib/use-ros";
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { useRos, useRosTopic } from "@/lib/use-ros";
+import { adaptTypeName } from "@/lib/ros-dialect";
+import {
+  PHONE_STATUS_TOPIC,
+  ROBOT_COMMAND_TOPIC,
+  RobotCommand,
+  STRING_MESSAGE_TYPE,
+  createStatusMessage,
+  parseRobotCommand,
+} from "@/lib/orchestration";
+import { useTestPlans } from "@/lib/use-test-plans";
+import {
+  PlannedTest,
+  TestPlanSource,
+  resolveTestPlan,
+} from "@/lib/test-plans";
+import {
+  DIAGNOSTICS_TOPIC,
+  createDiagnosticArray,
+  diagnosticArrayType,
+  testSuiteToDiagnosticArray,
+  touchTestToDiagnosticStatus,
+} from "@/lib/diagnostics";
 import { TouchscreenTest } from "./touchscreen-test";
 import { EnhancedTouchscreenTest } from "./enhanced-touchscreen-test";
 import { DiagnosticResults } from "./diagnostic-results";
 import { DiagnosticReport } from "./diagnostic-report";
 import { TestSuite } from "./test-suite";
+import {
+  defaultPlannedTests,
+  testRegistry,
+  touchscreenPlugin,
+} from "./test-registry";
 import { Button } from "@/components/ui/button";
-import { Wifi, WifiOff, Settings, TestTube } from "lucide-react";
-
-interface TouchTestResult {
-  multiTouchSupported: boolean;
-  maxSimultaneousTouches: number;
-  averageResponseTime: number;
-  totalTouches: number;
-  testDuration: number;
-  touchPoints: any[];
-}
-
-interface ShapeTracingResult {
-  shape: "square" | "diamond";
-  accuracy: number;
-  completionTime: number;
-  tracePoints: Array<{ x: number; y: number; timestamp: number }>;
-  totalDistance: number;
-  deviationScore: number;
-}
-
-interface EnhancedTouchTestResult {
-  basicTouch: TouchTestResult;
-  squareTracing: ShapeTracingResult;
-  diamondTracing: ShapeTracingResult;
-  overallScore: number;
-}
-
-interface TestSuiteResult {
-  touchscreen?: EnhancedTouchTestResult;
-  displayDefect?: {
-    testCompleted: boolean;
-    duration: number;
-    timestamp: number;
-  };
-  proximitySensor?: {
-    sensorActivated: boolean;
-    activationTime: number;
-    testDuration: number;
-    success: boolean;
-  };
-}
+import {
+  Wifi,
+  WifiOff,
+  RefreshCw,
+  Settings,
+  TestTube,
+} from "lucide-react";
+import { TouchTestResult, TestSuiteResult } from "@/lib/test-results";
+
+const planSourceLabels: Record<TestPlanSource, string> = {
+  default: "Default",
+  home: "Selected here",
+  url: "From URL",
+  ros: "From robot cell",
+};
 
 type AppState =
   | "setup"
@@ -66,277 +67,197 @@ export function DiagnosticApp() {
   const [suiteResults, setSuiteResults] = useState<TestSuiteResult | null>(
     null
   );
-  const [isPublishing, setIsPublishing] = useState(false);
-  const [publishSuccess, setPublishSuccess] = useState<boolean | undefined>();
-  const [rosUrl, setRosUrl] = useState("ws://localhost:9090");
+  const [publishedMessageId, setPublishedMessageId] = useState<string | null>(
+    null
+  );
   const [showSettings, setShowSettings] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [robotCommand, setRobotCommand] = useState<RobotCommand | null>(null);
 
   const {
+    url: rosUrl,
+    setUrl: setRosUrl,
+    rosVersion,
+    rosVersionSetting,
+    setRosVersionSetting,
+    detectedRosVersion,
     isConnected,
     isConnecting,
+    isReconnecting,
+    reconnectAttempt,
+    nextRetryAt,
     error,
     connect,
     disconnect,
     publishMessage,
-  } = useRos({ url: rosUrl });
+    queueMessage,
+    outbox,
+  } = useRos();
+
+  const {
+    plans,
+    plan,
+    planSource,
+    selectPlan,
+    error: planError,
+  } = useTestPlans(testRegistry);
+  const plannedTests = useMemo(
+    () => resolveTestPlan(plan, testRegistry),
+    [plan]
+  );
+  // The standalone touch test is judged like the plan's touchscreen step
+  const touchThresholds =
+    plannedTests.find(({ plugin }) => plugin.id === touchscreenPlugin.id)
+      ?.thresholds ?? touchscreenPlugin.defaultThresholds;
 
-  // Auto-connect on mount
+  const deliveryStatus = outbox.find(
+    (queued) => queued.id === publishedMessageId
+  )?.status;
+  const isPublishing = deliveryStatus === "queued" && isConnected;
+
+  // Tick while a retry is scheduled so the countdown stays current
   useEffect(() => {
-    connect();
-  }, [connect]);
+    if (nextRetryAt === null) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [nextRetryAt]);
+
+  // Every run starts clean, so the results screen and the robot only ever
+  // see the run that just finished
+  const startRun = useCallback((state: AppState) => {
+    setTestResult(null);
+    setEnhancedTestResult(null);
+    setSuiteResults(null);
+    setPublishedMessageId(null);
+    setAppState(state);
+  }, []);
 
   const handleTestComplete = useCallback((result: TouchTestResult) => {
     setTestResult(result);
     setAppState("results");
-    setPublishSuccess(undefined);
+    setPublishedMessageId(null);
   }, []);
 
-  const handleRetry = useCallback(() => {
-    setTestResult(null);
-    setAppState("testing");
-    setPublishSuccess(undefined);
-  }, []);
+  const handleRetry = useCallback(() => startRun("testing"), [startRun]);
 
-  const handleStartTest = useCallback(() => {
-    setAppState("testing");
-  }, []);
+  const handleStartTest = useCallback(() => startRun("testing"), [startRun]);
 
   const handleEnhancedTestComplete = useCallback((result: any) => {
     setEnhancedTestResult(result);
     setAppState("results");
-    setPublishSuccess(undefined);
+    setPublishedMessageId(null);
   }, []);
 
-  const handleEnhancedRetry = useCallback(() => {
-    setEnhancedTestResult(null);
-    setAppState("enhanced-touch");
-    setPublishSuccess(undefined);
-  }, []);
+  const handleEnhancedRetry = useCallback(
+    () => startRun("enhanced-touch"),
+    [startRun]
+  );
 
-  const handleStartTestSuite = useCallback(() => {
-    setAppState("test-suite");
-  }, []);
+  const handleStartTestSuite = useCallback(
+    () => startRun("test-suite"),
+    [startRun]
+  );
 
   const handleSuiteComplete = useCallback((results: TestSuiteResult) => {
     setSuiteResults(results);
     setAppState("results");
-    setPublishSuccess(undefined);
+    setPublishedMessageId(null);
   }, []);
 
   const handleSuitePublish = useCallback(
-    (results: TestSuiteResult) => {
-      if (!isConnected) return;
-
-      setIsPublishing(true);
-
-      const diagnosticStatuses = [];
-
-      // Add touchscreen results if available
-      if (results.touchscreen) {
-        const touchscreen = results.touchscreen;
-        diagnosticStatuses.push({
-          header: {
-            stamp: {
-              sec: Math.floor(Date.now() / 1000),
-              nanosec: (Date.now() % 1000) * 1000000,
-            },
-            frame_id: "touchscreen_diagnostic",
-          },
-          name: "touchscreen_test",
-          message: `Touchscreen test completed. Multi-touch: ${
-            touchscreen.basicTouch.multiTouchSupported
-          }, Max touches: ${
-            touchscreen.basicTouch.maxSimultaneousTouches
-          }, Response time: ${touchscreen.basicTouch.averageResponseTime.toFixed(
-            2
-          )}ms, Overall score: ${touchscreen.overallScore}%`,
-          hardware_id: "mobile_test_suite",
-          values: [
-            {
-              key: "multi_touch_supported",
-              value: touchscreen.basicTouch.multiTouchSupported.toString(),
-            },
-            {
-              key: "max_simultaneous_touches",
-              value: touchscreen.basicTouch.maxSimultaneousTouches.toString(),
-            },
-            {
-              key: "average_response_time_ms",
-              value: touchscreen.basicTouch.averageResponseTime.toFixed(2),
-            },
-            {
-              key: "total_touches",
-              value: touchscreen.basicTouch.totalTouches.toString(),
-            },
-            {
-              key: "overall_score",
-              value: touchscreen.overallScore.toString(),
-            },
-            {
-              key: "square_accuracy",
-              value: touchscreen.squareTracing.accuracy.toString(),
-            },
-            {
-              key: "diamond_accuracy",
-              value: touchscreen.diamondTracing.accuracy.toString(),
-            },
-          ],
-        });
-      }
-
-      // Add display defect results if available
-      if (results.displayDefect) {
-        const display = results.displayDefect;
-        diagnosticStatuses.push({
-          header: {
-            stamp: {
-              sec: Math.floor(Date.now() / 1000),
-              nanosec: (Date.now() % 1000) * 1000000,
-            },
-            frame_id: "display_diagnostic",
-          },
-          name: "display_defect_test",
-          message: `Display defect test completed. Duration: ${display.duration}ms`,
-          hardware_id: "mobile_test_suite",
-          values: [
-            {
-              key: "test_completed",
-              value: display.testCompleted.toString(),
-            },
-            {
-              key: "duration_ms",
-              value: display.duration.toString(),
-            },
-            {
-              key: "timestamp",
-              value: display.timestamp.toString(),
-            },
-          ],
-        });
-      }
-
-      // Add proximity sensor results if available
-      if (results.proximitySensor) {
-        const proximity = results.proximitySensor;
-        diagnosticStatuses.push({
-          header: {
-            stamp: {
-              sec: Math.floor(Date.now() / 1000),
-              nanosec: (Date.now() % 1000) * 1000000,
-            },
-            frame_id: "proximity_diagnostic",
-          },
-          name: "proximity_sensor_test",
-          message: `Proximity sensor test completed. Success: ${proximity.success}, Activation time: ${proximity.activationTime}ms`,
-          hardware_id: "mobile_test_suite",
-          values: [
-            {
-              key: "sensor_activated",
-              value: proximity.sensorActivated.toString(),
-            },
-            {
-              key: "activation_time_ms",
-              value: proximity.activationTime.toString(),
-            },
-            {
-              key: "test_duration_ms",
-              value: proximity.testDuration.toString(),
-            },
-            {
-              key: "success",
-              value: proximity.success.toString(),
-            },
-          ],
-        });
-      }
-
-      // Publish to ROS topic
-      const success = publishMessage(
-        "/diagnostics",
-        "diagnostic_msgs/DiagnosticArray",
-        {
-          header: {
-            stamp: {
-              sec: Math.floor(Date.now() / 1000),
-              nanosec: (Date.now() % 1000) * 1000000,
-            },
-            frame_id: "test_suite_diagnostic",
-          },
-          status: diagnosticStatuses,
-        }
+    (results: TestSuiteResult, tests: PlannedTest[]) => {
+      // Publish to ROS topic, or hold it until the bridge is back
+      const messageId = queueMessage(
+        DIAGNOSTICS_TOPIC,
+        diagnosticArrayType(rosVersion),
+        testSuiteToDiagnosticArray(results, tests, rosVersion)
       );
 
-      setPublishSuccess(success);
-      setIsPublishing(false);
+      setPublishedMessageId(messageId);
     },
-    [isConnected, publishMessage]
+    [queueMessage, rosVersion]
   );
 
   const handlePublishResult = useCallback(() => {
-    if (!testResult || !isConnected) return;
-
-    setIsPublishing(true);
-
-    // Prepare diagnostic message
-    const diagnosticMessage = {
-      header: {
-        stamp: {
-          sec: Math.floor(Date.now() / 1000),
-          nanosec: (Date.now() % 1000) * 1000000,
-        },
-        frame_id: "touchscreen_diagnostic",
-      },
-      name: "touchscreen_test",
-      message: `Touchscreen diagnostic completed. Multi-touch: ${
-        testResult.multiTouchSupported
-      }, Max touches: ${
-        testResult.maxSimultaneousTouches
-      }, Response time: ${testResult.averageResponseTime.toFixed(2)}ms`,
-      hardware_id: "mobile_touchscreen",
-      values: [
-        {
-          key: "multi_touch_supported",
-          value: testResult.multiTouchSupported.toString(),
-        },
-        {
-          key: "max_simultaneous_touches",
-          value: testResult.maxSimultaneousTouches.toString(),
-        },
-        {
-          key: "average_response_time_ms",
-          value: testResult.averageResponseTime.toFixed(2),
-        },
-        {
-          key: "total_touches",
-          value: testResult.totalTouches.toString(),
-        },
-        {
-          key: "test_duration_ms",
-          value: testResult.testDuration.toString(),
-        },
-      ],
-    };
-
-    // Publish to ROS topic
-    const success = publishMessage(
-      "/diagnostics",
-      "diagnostic_msgs/DiagnosticArray",
-      {
-        header: diagnosticMessage.header,
-        status: [diagnosticMessage],
-      }
+    if (!testResult) return;
+
+    // Publish to ROS topic, or hold it until the bridge is back
+    const messageId = queueMessage(
+      DIAGNOSTICS_TOPIC,
+      diagnosticArrayType(rosVersion),
+      createDiagnosticArray(
+        [touchTestToDiagnosticStatus(testResult, touchThresholds)],
+        "touchscreen_diagnostic",
+        rosVersion
+      )
+    );
+
+    setPublishedMessageId(messageId);
+  }, [testResult, touchThresholds, queueMessage, rosVersion]);
+
+  // Status for the robot outside the suite, from the screen on show: a
+  // standalone test running, its results, or home. TestSuite announces its
+  // own once mounted.
+  const announceIdleStatus = useCallback(() => {
+    publishMessage(
+      PHONE_STATUS_TOPIC,
+      adaptTypeName(STRING_MESSAGE_TYPE, rosVersion),
+      createStatusMessage({
+        state:
+          appState === "results"
+            ? "completed"
+            : appState === "setup"
+            ? "ready"
+            : "running",
+        step: null,
+        stepIndex: -1,
+        // The suite's steps plus its report
+        stepCount: plannedTests.length + 1,
+        waitingFor: null,
+        timestamp: Date.now(),
+      })
     );
+  }, [publishMessage, rosVersion, appState, plannedTests]);
+
+  useEffect(() => {
+    if (isConnected && appState !== "test-suite") announceIdleStatus();
+  }, [isConnected, appState, announceIdleStatus]);
+
+  // Listen for robot orchestration commands on every screen, so the robot can
+  // start the suite from home or query the phone between runs
+  useRosTopic<{ data: string }>(
+    ROBOT_COMMAND_TOPIC,
+    STRING_MESSAGE_TYPE,
+    (message) => {
+      const command = parseRobotCommand(message.data);
+      if (!command) {
+        console.warn(`Ignoring unknown robot command "${message.data}"`);
+        return;
+      }
+
+      if (appState === "test-suite") {
+        setRobotCommand(command);
+      } else if (command.command === "start") {
+        setRobotCommand(command);
+        startRun("test-suite");
+      } else if (command.command === "query") {
+        announceIdleStatus();
+      }
+    },
+    { enabled: isConnected }
+  );
 
-    setPublishSuccess(success);
-    setIsPublishing(false);
-  }, [testResult, isConnected, publishMessage]);
+  const handleRobotCommandHandled = useCallback(
+    () => setRobotCommand(null),
+    []
+  );
 
   const handleReconnect = useCallback(() => {
-    if (isConnected) {
-      disconnect();
-    }
+    disconnect();
     setTimeout(() => connect(), 500);
-  }, [isConnected, disconnect, connect]);
+  }, [disconnect, connect]);
 
   if (appState === "testing") {
     return <TouchscreenTest onTestComplete={handleTestComplete} />;
@@ -351,12 +272,16 @@ export function DiagnosticApp() {
   if (appState === "test-suite") {
     return (
       <TestSuite
+        tests={plannedTests}
+        planName={plan.name}
         onComplete={handleSuiteComplete}
-        onPublishResult={handleSuitePublish}
+        onPublishResult={(results) =>
+          handleSuitePublish(results, plannedTests)
+        }
         isPublishing={isPublishing}
-        publishSuccess={publishSuccess}
-        rosConnected={isConnected}
-        rosUrl={rosUrl}
+        deliveryStatus={deliveryStatus}
+        robotCommand={robotCommand}
+        onRobotCommandHandled={handleRobotCommandHandled}
       />
     );
   }
@@ -367,10 +292,11 @@ export function DiagnosticApp() {
       return (
         <DiagnosticResults
           result={testResult}
+          maxResponseTimeMs={touchThresholds.maxResponseTimeMs}
           onRetry={handleRetry}
           onPublishResult={handlePublishResult}
           isPublishing={isPublishing}
-          publishSuccess={publishSuccess}
+          deliveryStatus={deliveryStatus}
           rosConnected={isConnected}
         />
       );
@@ -384,9 +310,11 @@ export function DiagnosticApp() {
         <DiagnosticReport
           results={enhancedSuiteResult}
           onRetry={handleEnhancedRetry}
-          onPublishResult={() => handleSuitePublish(enhancedSuiteResult)}
+          onPublishResult={() =>
+            handleSuitePublish(enhancedSuiteResult, defaultPlannedTests)
+          }
           isPublishing={isPublishing}
-          publishSuccess={publishSuccess}
+          deliveryStatus={deliveryStatus}
           rosConnected={isConnected}
         />
       );
@@ -396,10 +324,13 @@ export function DiagnosticApp() {
       return (
         <DiagnosticReport
           results={suiteResults}
+          tests={plannedTests}
           onRetry={() => setAppState("setup")}
-          onPublishResult={() => handleSuitePublish(suiteResults)}
+          onPublishResult={() =>
+            handleSuitePublish(suiteResults, plannedTests)
+          }
           isPublishing={isPublishing}
-          publishSuccess={publishSuccess}
+          deliveryStatus={deliveryStatus}
           rosConnected={isConnected}
         />
       );
@@ -426,6 +357,8 @@ export function DiagnosticApp() {
             <div className="flex items-center space-x-3">
               {isConnected ? (
                 <Wifi className="w-5 h-5 text-green-600" />
+              ) : isReconnecting ? (
+                <RefreshCw className="w-5 h-5 text-amber-600 animate-spin" />
               ) : (
                 <WifiOff className="w-5 h-5 text-red-600" />
               )}
@@ -433,13 +366,26 @@ export function DiagnosticApp() {
                 <h3 className="font-medium text-gray-900">ROS Connection</h3>
                 <p
                   className={`text-sm ${
-                    isConnected ? "text-green-600" : "text-red-600"
+                    isConnected
+                      ? "text-green-600"
+                      : isReconnecting
+                      ? "text-amber-600"
+                      : "text-red-600"
                   }`}
                 >
                   {isConnecting
                     ? "Connecting..."
                     : isConnected
                     ? "Connected"
+                    : isReconnecting
+                    ? `Reconnecting (attempt ${reconnectAttempt})${
+                        nextRetryAt !== null
+                          ? ` in ${Math.max(
+                              0,
+                              Math.ceil((nextRetryAt - now) / 1000)
+                            )}s`
+                          : "..."
+                      }`
                     : "Disconnected"}
                 </p>
                 {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
@@ -469,6 +415,37 @@ export function DiagnosticApp() {
                   placeholder="ws://localhost:9090"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  ROS Version
+                </label>
+                <select
+                  value={String(rosVersionSetting)}
+                  onChange={(e) =>
+                    setRosVersionSetting(
+                      e.target.value === "auto"
+                        ? "auto"
+                        : e.target.value === "1"
+                        ? 1
+                        : 2
+                    )
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="auto">
+                    {`Auto-detect${
+                      detectedRosVersion !== null
+                        ? ` (ROS ${detectedRosVersion})`
+                        : ""
+                    }`}
+                  </option>
+                  <option value="1">ROS 1</option>
+                  <option value="2">ROS 2</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Messages use ROS {rosVersion} stamps and type names
+                </p>
+              </div>
               <Button
                 onClick={handleReconnect}
                 disabled={isConnecting}
@@ -489,22 +466,51 @@ export function DiagnosticApp() {
 
           <div className="space-y-3">
             {/* Test Suite */}
-            <div className="flex items-center justify-between p-3 border-2 border-blue-200 rounded-lg bg-blue-50">
+            <div className="p-3 border-2 border-blue-200 rounded-lg bg-blue-50 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-medium text-gray-900 flex items-center">
+                    <TestTube className="w-4 h-4 mr-2" />
+                    Complete Test Suite
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    {plan.description ??
+                      "Run the selected diagnostic tests with detailed reporting"}
+                  </p>
+                </div>
+                <Button
+                  onClick={handleStartTestSuite}
+                  disabled={plannedTests.length === 0}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  Start Suite
+                </Button>
+              </div>
+
               <div>
-                <h3 className="font-medium text-gray-900 flex items-center">
-                  <TestTube className="w-4 h-4 mr-2" />
-                  Complete Test Suite
-                </h3>
-                <p className="text-sm text-gray-600">
-                  Run all available diagnostic tests with detailed reporting
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Test Plan
+                </label>
+                <select
+                  value={plan.id}
+                  onChange={(e) => selectPlan(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {plans.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {`${planSourceLabels[planSource]} • ${plannedTests
+                    .map(({ plugin }) => plugin.title)
+                    .join(", ")}`}
                 </p>
+                {planError && (
+                  <p className="text-xs text-red-500 mt-1">{planError}</p>
+                )}
               </div>
-              <Button
-                onClick={handleStartTestSuite}
-                className="bg-blue-600 hover:bg-blue-700"
-              >
-                Start Suite
-              </Button>
             </div>
 
             {/* Individual Tests */}
@@ -520,12 +526,12 @@ export function DiagnosticApp() {
                       Enhanced Touchscreen Test
                     </h3>
                     <p className="text-sm text-gray-600">
-                      Multi-touch, square tracing, and diamond tracing with
+                      Response time, square tracing, and diamond tracing with
                       scoring
                     </p>
                   </div>
                   <Button
-                    onClick={() => setAppState("enhanced-touch")}
+                    onClick={() => startRun("enhanced-touch")}
                     variant="outline"
                   >
                     Start
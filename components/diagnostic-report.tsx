@@ -1,6 +1,7 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { DeliveryStatus } from "@/lib/publish-queue";
 import {
   ChartContainer,
   ChartTooltip,
@@ -27,62 +28,18 @@ import {
   Share2,
   Wifi,
 } from "lucide-react";
-
-interface TouchTestResult {
-  multiTouchSupported: boolean;
-  maxSimultaneousTouches: number;
-  averageResponseTime: number;
-  totalTouches: number;
-  testDuration: number;
-  touchPoints: Array<{
-    id: number;
-    x: number;
-    y: number;
-    timestamp: number;
-  }>;
-}
-
-interface ShapeTracingResult {
-  shape: "square" | "diamond";
-  accuracy: number;
-  completionTime: number;
-  tracePoints: Array<{ x: number; y: number; timestamp: number }>;
-  totalDistance: number;
-  deviationScore: number;
-}
-
-interface EnhancedTouchTestResult {
-  basicTouch: TouchTestResult;
-  squareTracing: ShapeTracingResult;
-  diamondTracing: ShapeTracingResult;
-  overallScore: number;
-}
-
-interface DisplayDefectResult {
-  testCompleted: boolean;
-  duration: number;
-  timestamp: number;
-}
-
-interface ProximitySensorResult {
-  sensorActivated: boolean;
-  activationTime: number;
-  testDuration: number;
-  success: boolean;
-}
-
-interface TestSuiteResult {
-  touchscreen?: EnhancedTouchTestResult;
-  displayDefect?: DisplayDefectResult;
-  proximitySensor?: ProximitySensorResult;
-}
+import { TestSuiteResult } from "@/lib/test-results";
+import { PlannedTest } from "@/lib/test-plans";
+import { defaultPlannedTests, touchscreenPlugin } from "./test-registry";
 
 interface DiagnosticReportProps {
   results: TestSuiteResult;
+  /** Tests the results came from; their thresholds drive the scoring. */
+  tests?: PlannedTest[];
   onRetry: () => void;
   onPublishResult: () => void;
   isPublishing: boolean;
-  publishSuccess?: boolean;
+  deliveryStatus?: DeliveryStatus;
   rosConnected: boolean;
 }
 
@@ -107,15 +64,23 @@ const chartConfig = {
 
 export function DiagnosticReport({
   results,
+  tests = defaultPlannedTests,
   onRetry,
   onPublishResult,
   isPublishing,
-  publishSuccess,
+  deliveryStatus,
   rosConnected,
 }: DiagnosticReportProps) {
-  const { touchscreen, displayDefect, proximitySensor } = results;
-
-  if (!touchscreen && !displayDefect && !proximitySensor) {
+  const completedTests = tests.flatMap(({ plugin, thresholds }) => {
+    const result = results[plugin.resultKey];
+    return plugin.isResult(result) ? [{ plugin, thresholds, result }] : [];
+  });
+  const touchResult = results[touchscreenPlugin.resultKey];
+  const touchscreen = touchscreenPlugin.isResult(touchResult)
+    ? touchResult
+    : undefined;
+
+  if (completedTests.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <div className="text-center">
@@ -131,118 +96,23 @@ export function DiagnosticReport({
     );
   }
 
-  // Calculate overall score based on all completed tests
-  const calculateOverallScore = () => {
-    let totalScore = 0;
-    let testCount = 0;
-
-    if (touchscreen) {
-      let touchScore = 0;
-      if (touchscreen.basicTouch.multiTouchSupported) touchScore += 20;
-      if (touchscreen.basicTouch.averageResponseTime < 100) touchScore += 20;
-      if (touchscreen.basicTouch.maxSimultaneousTouches >= 2) touchScore += 20;
-      if (touchscreen.squareTracing.accuracy >= 70) touchScore += 20;
-      if (touchscreen.diamondTracing.accuracy >= 70) touchScore += 20;
-      totalScore += touchScore;
-      testCount++;
-    }
-
-    if (displayDefect) {
-      const displayScore = displayDefect.testCompleted ? 100 : 0;
-      totalScore += displayScore;
-      testCount++;
-    }
-
-    if (proximitySensor) {
-      const sensorScore = proximitySensor.success ? 100 : 0;
-      totalScore += sensorScore;
-      testCount++;
-    }
-
-    return testCount > 0 ? Math.round(totalScore / testCount) : 0;
-  };
-
-  const overallScore = calculateOverallScore();
-
-  // Prepare chart data using the new test structure
-  const performanceData = [];
-
-  if (touchscreen) {
-    performanceData.push({
-      metric: "Response Time",
-      value: touchscreen.basicTouch.averageResponseTime,
-      threshold: 100,
-      status:
-        touchscreen.basicTouch.averageResponseTime < 100 ? "Good" : "Poor",
-    });
-    performanceData.push({
-      metric: "Square Accuracy",
-      value: touchscreen.squareTracing.accuracy,
-      threshold: 70,
-      status: touchscreen.squareTracing.accuracy >= 70 ? "Good" : "Poor",
-    });
-    performanceData.push({
-      metric: "Diamond Accuracy",
-      value: touchscreen.diamondTracing.accuracy,
-      threshold: 70,
-      status: touchscreen.diamondTracing.accuracy >= 70 ? "Good" : "Poor",
-    });
-  }
-
-  if (displayDefect) {
-    performanceData.push({
-      metric: "Display Test",
-      value: displayDefect.testCompleted ? 100 : 0,
-      threshold: 100,
-      status: displayDefect.testCompleted ? "Good" : "Poor",
-    });
-  }
-
-  if (proximitySensor) {
-    performanceData.push({
-      metric: "Proximity Sensor",
-      value: proximitySensor.success ? 100 : 0,
-      threshold: 100,
-      status: proximitySensor.success ? "Good" : "Poor",
-    });
-  }
-
-  const testResults: Array<{ name: string; passed: boolean }> = [];
-
-  if (touchscreen) {
-    testResults.push(
-      {
-        name: "Multi-touch",
-        passed: touchscreen.basicTouch.multiTouchSupported,
-      },
-      {
-        name: "Response Time",
-        passed: touchscreen.basicTouch.averageResponseTime < 100,
-      },
-      {
-        name: "Square Tracing",
-        passed: touchscreen.squareTracing.accuracy >= 70,
-      },
-      {
-        name: "Diamond Tracing",
-        passed: touchscreen.diamondTracing.accuracy >= 70,
-      }
-    );
-  }
+  // Overall score is the mean of each completed test's own score
+  const overallScore = Math.round(
+    completedTests.reduce(
+      (total, { plugin, thresholds, result }) =>
+        total + plugin.score(result, thresholds),
+      0
+    ) / completedTests.length
+  );
 
-  if (displayDefect) {
-    testResults.push({
-      name: "Display Defect",
-      passed: displayDefect.testCompleted,
-    });
-  }
+  // Prepare chart data from each test's reported metrics
+  const performanceData = completedTests.flatMap(
+    ({ plugin, thresholds, result }) => plugin.metrics(result, thresholds)
+  );
 
-  if (proximitySensor) {
-    testResults.push({
-      name: "Proximity Sensor",
-      passed: proximitySensor.success,
-    });
-  }
+  const testResults = completedTests.flatMap(
+    ({ plugin, thresholds, result }) => plugin.checks(result, thresholds)
+  );
 
   const passFailData = [
     {
@@ -279,6 +149,19 @@ export function DiagnosticReport({
       )
       .slice(0, 10) || []; // Limit to first 10 seconds
 
+  // Pressure histogram, for calibrating the robot finger's contact force
+  const force = touchscreen?.basicTouch.force;
+  const forceDistribution =
+    force && force.samples > 0
+      ? force.histogram.map((count, bin) => ({
+          pressure: `${(bin / force.histogram.length).toFixed(1)}–${(
+            (bin + 1) /
+            force.histogram.length
+          ).toFixed(1)}`,
+          count,
+        }))
+      : [];
+
   const handleExportReport = () => {
     const reportData = {
       timestamp: new Date().toISOString(),
@@ -451,6 +334,50 @@ export function DiagnosticReport({
           </div>
         )}
 
+        {/* Touch Force Distribution */}
+        {force && forceDistribution.length > 0 && (
+          <div className="bg-white rounded-lg p-6 shadow-sm">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Touch Force Distribution
+            </h3>
+            <ChartContainer config={chartConfig} className="h-64">
+              <BarChart data={forceDistribution}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="pressure" />
+                <YAxis />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="#2563eb" />
+              </BarChart>
+            </ChartContainer>
+            <p className="text-sm text-gray-600 mt-2">
+              {force.pressureReported
+                ? `Pressure p50 ${force.p50.toFixed(2)}, p95 ${force.p95.toFixed(
+                    2
+                  )} over ${force.samples} samples`
+                : "This screen does not report touch pressure"}
+              {" · "}
+              contact {force.meanContactWidth.toFixed(1)}×
+              {force.meanContactHeight.toFixed(1)}px
+            </p>
+          </div>
+        )}
+
+        {/* Test-specific views, e.g. the touch coverage heatmap */}
+        {completedTests.map(
+          ({ plugin, result }) =>
+            plugin.reportView && (
+              <div
+                key={plugin.id}
+                className="bg-white rounded-lg p-6 shadow-sm"
+              >
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  {plugin.title}
+                </h3>
+                <plugin.reportView result={result} />
+              </div>
+            )
+        )}
+
         {/* Detailed Results */}
         <div className="bg-white rounded-lg p-6 shadow-sm">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -487,104 +414,16 @@ export function DiagnosticReport({
             <div className="space-y-4">
               <h4 className="font-medium text-gray-900">Raw Metrics</h4>
               <div className="space-y-3 text-sm">
-                {touchscreen && (
-                  <>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">
-                        Multi-touch Support:
-                      </span>
-                      <span className="font-medium">
-                        {touchscreen.basicTouch.multiTouchSupported
-                          ? "Yes"
-                          : "No"}
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">
-                        Max Simultaneous Touches:
-                      </span>
-                      <span className="font-medium">
-                        {touchscreen.basicTouch.maxSimultaneousTouches}
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">
-                        Average Response Time:
-                      </span>
-                      <span className="font-medium">
-                        {touchscreen.basicTouch.averageResponseTime.toFixed(2)}
-                        ms
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Total Touches:</span>
-                      <span className="font-medium">
-                        {touchscreen.basicTouch.totalTouches}
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Test Duration:</span>
-                      <span className="font-medium">
-                        {touchscreen.basicTouch.testDuration / 1000}s
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Square Accuracy:</span>
-                      <span className="font-medium">
-                        {touchscreen.squareTracing.accuracy.toFixed(1)}%
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Diamond Accuracy:</span>
-                      <span className="font-medium">
-                        {touchscreen.diamondTracing.accuracy.toFixed(1)}%
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Overall Score:</span>
-                      <span className="font-medium">
-                        {touchscreen.overallScore}%
-                      </span>
-                    </div>
-                  </>
-                )}
-
-                {displayDefect && (
-                  <>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Display Test:</span>
-                      <span className="font-medium">
-                        {displayDefect.testCompleted ? "Completed" : "Failed"}
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Duration:</span>
-                      <span className="font-medium">
-                        {(displayDefect.duration / 1000).toFixed(1)}s
-                      </span>
-                    </div>
-                  </>
-                )}
-
-                {proximitySensor && (
-                  <>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Proximity Sensor:</span>
-                      <span className="font-medium">
-                        {proximitySensor.success ? "Activated" : "Failed"}
-                      </span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600">Activation Time:</span>
-                      <span className="font-medium">
-                        {proximitySensor.sensorActivated
-                          ? `${(proximitySensor.activationTime / 1000).toFixed(
-                              1
-                            )}s`
-                          : "N/A"}
-                      </span>
+                {completedTests.map(({ plugin, result }) =>
+                  plugin.details(result).map((detail) => (
+                    <div
+                      key={`${plugin.id}-${detail.label}`}
+                      className="flex justify-between"
+                    >
+                      <span className="text-gray-600">{detail.label}:</span>
+                      <span className="font-medium">{detail.value}</span>
                     </div>
-                  </>
+                  ))
                 )}
               </div>
             </div>
@@ -592,21 +431,29 @@ export function DiagnosticReport({
         </div>
 
         {/* Publish Status */}
-        {publishSuccess !== undefined && (
+        {deliveryStatus && (
           <div
             className={`rounded-lg p-4 ${
-              publishSuccess
+              deliveryStatus === "sent"
                 ? "bg-green-50 border border-green-200"
+                : deliveryStatus === "queued"
+                ? "bg-amber-50 border border-amber-200"
                 : "bg-red-50 border border-red-200"
             }`}
           >
             <p
               className={`text-sm ${
-                publishSuccess ? "text-green-700" : "text-red-700"
+                deliveryStatus === "sent"
+                  ? "text-green-700"
+                  : deliveryStatus === "queued"
+                  ? "text-amber-700"
+                  : "text-red-700"
               }`}
             >
-              {publishSuccess
+              {deliveryStatus === "sent"
                 ? "Results successfully published to ROS topic"
+                : deliveryStatus === "queued"
+                ? "Results queued - they will be published when the ROS connection returns"
                 : "Failed to publish results to ROS topic"}
             </p>
           </div>
@@ -616,10 +463,14 @@ export function DiagnosticReport({
         <div className="grid md:grid-cols-4 gap-3">
           <Button
             onClick={onPublishResult}
-            disabled={!rosConnected || isPublishing}
+            disabled={isPublishing || deliveryStatus === "queued"}
             className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
           >
-            {isPublishing ? "Publishing..." : "Publish to ROS"}
+            {isPublishing
+              ? "Publishing..."
+              : rosConnected
+              ? "Publish to ROS"
+              : "Queue for ROS"}
           </Button>
 
           <Button
@@ -1,37 +1,44 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { DeliveryStatus } from "@/lib/publish-queue";
 import { CheckCircle, XCircle, RotateCcw, Wifi } from "lucide-react";
-
-interface TouchTestResult {
-  multiTouchSupported: boolean;
-  maxSimultaneousTouches: number;
-  averageResponseTime: number;
-  totalTouches: number;
-  testDuration: number;
-  touchPoints: any[];
-}
+import { LatencyStats, TouchTestResult } from "@/lib/test-results";
+import { touchResponseTime } from "@/lib/touch-latency";
+import { TouchReplay } from "./trace-replay";
 
 interface DiagnosticResultsProps {
   result: TouchTestResult;
+  /** Response time limit from the touchscreen test's plan thresholds. */
+  maxResponseTimeMs: number;
   onRetry: () => void;
   onPublishResult: () => void;
   isPublishing: boolean;
-  publishSuccess?: boolean;
+  deliveryStatus?: DeliveryStatus;
   rosConnected: boolean;
 }
 
 export function DiagnosticResults({
   result,
+  maxResponseTimeMs,
   onRetry,
   onPublishResult,
   isPublishing,
-  publishSuccess,
+  deliveryStatus,
   rosConnected,
 }: DiagnosticResultsProps) {
+  const responseTime = touchResponseTime(result);
+  const latencyRows: Array<[string, LatencyStats | undefined]> = result.latency
+    ? [
+        ["Touch to handler", result.latency.input],
+        ["Touch to frame", result.latency.frame],
+        ["Robot to touch", result.latency.endToEnd],
+      ]
+    : [];
+
   const getOverallStatus = () => {
     const hasMinimumTouches = result.totalTouches >= 5;
-    const hasReasonableResponseTime = result.averageResponseTime < 100;
+    const hasReasonableResponseTime = responseTime < maxResponseTimeMs;
     const supportsBasicTouch = result.maxSimultaneousTouches >= 1;
 
     return hasMinimumTouches && hasReasonableResponseTime && supportsBasicTouch;
@@ -115,14 +122,16 @@ export function DiagnosticResults({
             <span className="text-sm font-medium">{result.totalTouches}</span>
           </div>
 
-          {/* Average Response Time */}
+          {/* Response Time */}
           <div className="flex items-center justify-between">
-            <span className="text-gray-700">Avg Response Time</span>
+            <span className="text-gray-700">
+              {result.latency ? "Response Time (p95)" : "Avg Response Time"}
+            </span>
             <div className="flex items-center space-x-2">
               <span className="text-sm font-medium">
-                {result.averageResponseTime.toFixed(1)}ms
+                {responseTime.toFixed(1)}ms
               </span>
-              {result.averageResponseTime < 100 ? (
+              {responseTime < maxResponseTimeMs ? (
                 <CheckCircle className="w-4 h-4 text-green-600" />
               ) : (
                 <XCircle className="w-4 h-4 text-red-600" />
@@ -130,6 +139,49 @@ export function DiagnosticResults({
             </div>
           </div>
 
+          {/* Latency Distribution */}
+          {latencyRows.length > 0 && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-4 text-xs text-gray-500">
+                <span>Latency</span>
+                <span className="text-right">p50</span>
+                <span className="text-right">p95</span>
+                <span className="text-right">max</span>
+              </div>
+              {latencyRows.map(
+                ([label, stats]) =>
+                  stats && (
+                    <div key={label} className="grid grid-cols-4 text-sm">
+                      <span className="text-gray-700">{label}</span>
+                      <span className="text-right font-medium">
+                        {stats.p50.toFixed(1)}ms
+                      </span>
+                      <span className="text-right font-medium">
+                        {stats.p95.toFixed(1)}ms
+                      </span>
+                      <span className="text-right font-medium">
+                        {stats.max.toFixed(1)}ms
+                      </span>
+                    </div>
+                  )
+              )}
+            </div>
+          )}
+
+          {/* Touch Force */}
+          {result.force && result.force.samples > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-gray-700">Touch Pressure (p50/p95)</span>
+              <span className="text-sm font-medium">
+                {result.force.pressureReported
+                  ? `${result.force.p50.toFixed(2)} / ${result.force.p95.toFixed(
+                      2
+                    )}`
+                  : "Not reported"}
+              </span>
+            </div>
+          )}
+
           {/* Test Duration */}
           <div className="flex items-center justify-between">
             <span className="text-gray-700">Test Duration</span>
@@ -139,6 +191,16 @@ export function DiagnosticResults({
           </div>
         </div>
 
+        {/* Touch Replay */}
+        {result.touchPoints.length > 0 && (
+          <div className="bg-white rounded-lg p-4 shadow-sm space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Touch Replay
+            </h2>
+            <TouchReplay touchPoints={result.touchPoints} />
+          </div>
+        )}
+
         {/* Overall Assessment */}
         <div
           className={`rounded-lg p-4 ${
@@ -166,21 +228,29 @@ export function DiagnosticResults({
         </div>
 
         {/* Publish Status */}
-        {publishSuccess !== undefined && (
+        {deliveryStatus && (
           <div
             className={`rounded-lg p-4 ${
-              publishSuccess
+              deliveryStatus === "sent"
                 ? "bg-green-50 border border-green-200"
+                : deliveryStatus === "queued"
+                ? "bg-amber-50 border border-amber-200"
                 : "bg-red-50 border border-red-200"
             }`}
           >
             <p
               className={`text-sm ${
-                publishSuccess ? "text-green-700" : "text-red-700"
+                deliveryStatus === "sent"
+                  ? "text-green-700"
+                  : deliveryStatus === "queued"
+                  ? "text-amber-700"
+                  : "text-red-700"
               }`}
             >
-              {publishSuccess
+              {deliveryStatus === "sent"
                 ? "Results successfully published to ROS topic"
+                : deliveryStatus === "queued"
+                ? "Results queued - they will be published when the ROS connection returns"
                 : "Failed to publish results to ROS topic"}
             </p>
           </div>
@@ -190,10 +260,14 @@ export function DiagnosticResults({
         <div className="space-y-3">
           <Button
             onClick={onPublishResult}
-            disabled={!rosConnected || isPublishing}
+            disabled={isPublishing || deliveryStatus === "queued"}
             className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400"
           >
-            {isPublishing ? "Publishing..." : "Publish Results to ROS"}
+            {isPublishing
+              ? "Publishing..."
+              : rosConnected
+              ? "Publish Results to ROS"
+              : "Queue for ROS"}
           </Button>
 
           <Button onClick={onRetry} variant="outline" className="w-full">
@@ -1,115 +1,446 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Play, CheckCircle, XCircle } from "lucide-react";
-
-interface DisplayDefectResult {
-  testCompleted: boolean;
-  duration: number;
-  timestamp: number;
-}
+import {
+  DisplayDefectResult,
+  DisplayPatternAnalysis,
+  DisplayPatternResult,
+} from "@/lib/test-results";
+import {
+  DEFAULT_DISPLAY_PATTERNS,
+  DISPLAY_ANALYSIS_TOPIC,
+  DISPLAY_CAPTURED_TOPIC,
+  DISPLAY_PATTERN_TOPIC,
+  DisplayPatternStep,
+  createDisplayPatternMessage,
+  parseDisplayAnalysis,
+  parseDisplayCaptureAck,
+  resolveDisplayPattern,
+  summarizeDisplayDefect,
+} from "@/lib/display-patterns";
+import { createSessionId, drawFiducials } from "@/lib/display-fiducials";
+import { STRING_MESSAGE_TYPE } from "@/lib/orchestration";
+import { adaptTypeName } from "@/lib/ros-dialect";
+import { useRos, useRosTopic } from "@/lib/use-ros";
 
 interface DisplayDefectTestProps {
   onTestComplete: (result: DisplayDefectResult) => void;
   showFloatingControls?: boolean;
+  /** Pattern ids, optionally with a duration in ms, e.g. "black:10000". */
+  patterns?: string[];
+  /** Duration of patterns that do not set their own, in ms. */
+  colorDuration?: number;
+  /**
+   * When above zero and ROS is connected, each pattern is also held until
+   * the robot acknowledges its capture, waiting this many ms at most.
+   */
+  captureTimeout?: number;
+  /**
+   * How long to wait after the last pattern for analyses the robot has not
+   * sent yet, in ms. Only applies while ROS is connected.
+   */
+  analysisTimeout?: number;
+  /**
+   * Shows corner markers and a QR code with the session and pattern ids for
+   * this many ms before each pattern; 0 leaves them out.
+   */
+  fiducialDuration?: number;
+}
+
+interface CaptureOutcome {
+  index: number;
+  captured: boolean;
+}
+
+// The step whose first frame has reached the screen, and when (epoch ms)
+interface PresentedStep {
+  index: number;
+  at: number;
+}
+
+function isFullyAnalyzed(
+  shown: DisplayPatternResult[],
+  analyses: Record<number, DisplayPatternAnalysis>
+) {
+  return shown.every((_, index) => index in analyses);
+}
+
+// Steps that must follow their predecessor directly skip the alignment frame
+function openingPhase(
+  step: DisplayPatternStep | undefined,
+  fiducialDuration: number
+) {
+  return fiducialDuration > 0 && !step?.followsDirectly ? "fiducials" : "pattern";
+}
+
+function highResolutionNow() {
+  return performance.timeOrigin + performance.now();
 }
 
 export function DisplayDefectTest({
   onTestComplete,
   showFloatingControls = false,
+  patterns = DEFAULT_DISPLAY_PATTERNS,
+  colorDuration = 7000,
+  captureTimeout = 0,
+  analysisTimeout = 10000,
+  fiducialDuration = 0,
 }: DisplayDefectTestProps) {
-  const [testState, setTestState] = useState<"ready" | "running" | "completed">(
-    "ready"
-  );
-  const [currentColor, setCurrentColor] = useState<"red" | "blue" | "green" | null>(
-    null
+  const [testState, setTestState] = useState<
+    "ready" | "running" | "analyzing" | "completed"
+  >("ready");
+  const [stepIndex, setStepIndex] = useState(0);
+  // Each step opens with the alignment frame when fiducials are enabled
+  const [phase, setPhase] = useState<"fiducials" | "pattern">("pattern");
+  const [sessionId, setSessionId] = useState("");
+  const [presented, setPresented] = useState<PresentedStep | null>(null);
+  const [awaitCapture, setAwaitCapture] = useState(false);
+  // Steps are done once held for their duration and, when awaiting capture,
+  // acknowledged by the robot or timed out
+  const [heldIndex, setHeldIndex] = useState(-1);
+  const [capture, setCapture] = useState<CaptureOutcome | null>(null);
+  const [analyzedCount, setAnalyzedCount] = useState(0);
+  const [result, setResult] = useState<DisplayDefectResult | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const startTimeRef = useRef<number>(0);
+  const durationRef = useRef<number>(0);
+  const shownRef = useRef<DisplayPatternResult[]>([]);
+  // Robot analyses by step index; they may arrive after the step has ended
+  const analysesRef = useRef<Record<number, DisplayPatternAnalysis>>({});
+
+  const { isConnected, publishMessage, rosVersion } = useRos();
+
+  // Entries that name no known pattern are left out
+  const steps = useMemo(
+    () =>
+      patterns.flatMap((entry): DisplayPatternStep[] => {
+        try {
+          return resolveDisplayPattern(entry, colorDuration);
+        } catch (error) {
+          console.warn("Skipping display pattern:", error);
+          return [];
+        }
+      }),
+    [patterns, colorDuration]
   );
-  const [startTime, setStartTime] = useState<number>(0);
-  const [elapsedTime, setElapsedTime] = useState<number>(0);
+
+  const step = steps[stepIndex];
 
   const handleStartTest = useCallback(() => {
+    startTimeRef.current = Date.now();
+    shownRef.current = [];
+    analysesRef.current = {};
+    setAnalyzedCount(0);
+    setResult(null);
+    setStepIndex(0);
+    setPhase(openingPhase(steps[0], fiducialDuration));
+    setSessionId(createSessionId());
+    setPresented(null);
+    setHeldIndex(-1);
+    setCapture(null);
+    setAwaitCapture(captureTimeout > 0 && isConnected);
     setTestState("running");
-    setStartTime(Date.now());
-    setCurrentColor("red");
-  }, []);
+  }, [steps, fiducialDuration, captureTimeout, isConnected]);
 
+  // Paint the pattern, or the alignment frame naming it, at native
+  // resolution whenever it changes
   useEffect(() => {
-    if (testState !== "running") return;
+    const canvas = canvasRef.current;
+    if (testState !== "running" || !step || !canvas) return;
 
-    const timer = setInterval(() => {
-      setElapsedTime(Date.now() - startTime);
-    }, 100);
+    const paint = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(window.innerWidth * ratio);
+      canvas.height = Math.round(window.innerHeight * ratio);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
 
-    return () => clearInterval(timer);
-  }, [testState, startTime]);
+      if (phase === "fiducials") {
+        drawFiducials(ctx, canvas.width, canvas.height, {
+          session_id: sessionId,
+          pattern: step.pattern.id,
+          index: stepIndex,
+        });
+      } else {
+        step.pattern.draw(ctx, canvas.width, canvas.height);
+      }
+    };
 
+    paint();
+    window.addEventListener("resize", paint);
+    return () => window.removeEventListener("resize", paint);
+  }, [testState, step, stepIndex, phase, sessionId]);
+
+  // Hold the alignment frame, then show the pattern itself
   useEffect(() => {
-    if (testState !== "running") return;
-
-    let colorTimer: NodeJS.Timeout;
-
-    if (currentColor === "red") {
-      // Show red for 7 seconds
-      colorTimer = setTimeout(() => {
-        setCurrentColor("green");
-      }, 7000);
-    } else if (currentColor === "green") {
-      // Show green for 7 seconds
-      colorTimer = setTimeout(() => {
-        setCurrentColor("blue");
-      }, 7000);
-    } else if (currentColor === "blue") {
-      // Show blue for 7 seconds, then complete
-      colorTimer = setTimeout(() => {
-        setTestState("completed");
-        const duration = Date.now() - startTime;
-
-        const result: DisplayDefectResult = {
-          testCompleted: true,
-          duration,
-          timestamp: Date.now(),
-        };
-
-        onTestComplete(result);
-      }, 7000);
-    }
+    if (testState !== "running" || phase !== "fiducials") return;
+
+    const timer = setTimeout(() => setPhase("pattern"), fiducialDuration);
+    return () => clearTimeout(timer);
+  }, [testState, phase, fiducialDuration]);
+
+  // Stamp the pattern once its first frame is on screen. The first callback
+  // runs before the painted frame is composited; the second one's timestamp
+  // is the start of the frame after it, i.e. when it was presented.
+  useEffect(() => {
+    if (testState !== "running" || !step || phase !== "pattern") return;
+
+    let frame = requestAnimationFrame(() => {
+      frame = requestAnimationFrame((time) => {
+        setPresented({ index: stepIndex, at: performance.timeOrigin + time });
+      });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [testState, step, stepIndex, phase]);
+
+  // Tell the robot which pattern is up and when it appeared
+  useEffect(() => {
+    if (testState !== "running" || !isConnected || !presented) return;
+    const presentedStep = steps[presented.index];
+    if (!presentedStep) return;
+
+    publishMessage(
+      DISPLAY_PATTERN_TOPIC,
+      adaptTypeName(STRING_MESSAGE_TYPE, rosVersion),
+      createDisplayPatternMessage(
+        presentedStep,
+        presented.index,
+        steps.length,
+        presented.at,
+        awaitCapture,
+        sessionId
+      )
+    );
+  }, [
+    testState,
+    isConnected,
+    presented,
+    steps,
+    awaitCapture,
+    sessionId,
+    publishMessage,
+    rosVersion,
+  ]);
+
+  const finishTest = useCallback(
+    (testCompleted: boolean) => {
+      const shown = shownRef.current.map((pattern, index) =>
+        analysesRef.current[index]
+          ? { ...pattern, analysis: analysesRef.current[index] }
+          : pattern
+      );
+      const displayResult = summarizeDisplayDefect(
+        shown,
+        testCompleted,
+        durationRef.current,
+        sessionId
+      );
+
+      setResult(displayResult);
+      setTestState("completed");
+      onTestComplete(displayResult);
+    },
+    [sessionId, onTestComplete]
+  );
+
+  // Record the pattern that is up, then move on or finish
+  const advance = useCallback(
+    (captured?: boolean) => {
+      if (!step || !presented || presented.index !== stepIndex) return;
+      if (shownRef.current.length > stepIndex) return;
+
+      shownRef.current = [
+        ...shownRef.current,
+        {
+          pattern: step.pattern.id,
+          title: step.pattern.title,
+          presentedAt: presented.at,
+          duration: highResolutionNow() - presented.at,
+          captured,
+        },
+      ];
+
+      if (stepIndex + 1 < steps.length) {
+        setStepIndex(stepIndex + 1);
+        setPhase(openingPhase(steps[stepIndex + 1], fiducialDuration));
+        return;
+      }
+
+      durationRef.current = Date.now() - startTimeRef.current;
+      if (
+        isConnected &&
+        analysisTimeout > 0 &&
+        !isFullyAnalyzed(shownRef.current, analysesRef.current)
+      ) {
+        setTestState("analyzing");
+      } else {
+        finishTest(true);
+      }
+    },
+    [
+      step,
+      presented,
+      stepIndex,
+      steps,
+      isConnected,
+      analysisTimeout,
+      fiducialDuration,
+      finishTest,
+    ]
+  );
+
+  // Nothing valid in the plan, so nothing was checked
+  useEffect(() => {
+    if (testState !== "running" || step) return;
+
+    durationRef.current = 0;
+    finishTest(false);
+  }, [testState, step, finishTest]);
 
+  // Give up on analyses that have not arrived
+  useEffect(() => {
+    if (testState !== "analyzing") return;
+
+    const timer = setTimeout(() => finishTest(true), analysisTimeout);
+    return () => clearTimeout(timer);
+  }, [testState, analysisTimeout, finishTest]);
+
+  // Hold each pattern for at least its duration and, when waiting on the
+  // robot, give up on its capture after the timeout; both run from the
+  // presented frame
+  useEffect(() => {
+    if (testState !== "running" || !step) return;
+    if (!presented || presented.index !== stepIndex) return;
+
+    const holdTimer = setTimeout(() => setHeldIndex(stepIndex), step.duration);
+    const captureTimer = awaitCapture
+      ? setTimeout(
+          () =>
+            setCapture((current) =>
+              current?.index === stepIndex
+                ? current
+                : { index: stepIndex, captured: false }
+            ),
+          captureTimeout
+        )
+      : undefined;
     return () => {
-      if (colorTimer) clearTimeout(colorTimer);
+      clearTimeout(holdTimer);
+      clearTimeout(captureTimer);
     };
-  }, [currentColor, startTime, onTestComplete, testState]);
-
-  const getBackgroundColor = () => {
-    switch (currentColor) {
-      case "red":
-        return "rgb(255, 0, 0)";
-      case "blue":
-        return "rgb(0, 0, 255)";
-      case "green":
-        return "rgb(0, 255, 0)";
-      default:
-        return "rgb(50, 50, 50)";
+  }, [testState, step, stepIndex, presented, awaitCapture, captureTimeout]);
+
+  useEffect(() => {
+    if (testState !== "running" || heldIndex !== stepIndex) return;
+    if (!awaitCapture) {
+      advance();
+    } else if (capture?.index === stepIndex) {
+      advance(capture.captured);
     }
-  };
+  }, [testState, heldIndex, stepIndex, awaitCapture, capture, advance]);
+
+  useRosTopic<{ data: string }>(
+    DISPLAY_CAPTURED_TOPIC,
+    STRING_MESSAGE_TYPE,
+    (message) => {
+      const ack = parseDisplayCaptureAck(message.data);
+      if (!ack || !step || ack.pattern !== step.pattern.id) return;
+      if (ack.index !== undefined && ack.index !== stepIndex) return;
+      if (presented?.index !== stepIndex) return;
+      setCapture((current) =>
+        current?.index === stepIndex
+          ? current
+          : { index: stepIndex, captured: true }
+      );
+    },
+    { enabled: testState === "running" && awaitCapture }
+  );
+
+  useRosTopic<{ data: string }>(
+    DISPLAY_ANALYSIS_TOPIC,
+    STRING_MESSAGE_TYPE,
+    (message) => {
+      const analysis = parseDisplayAnalysis(message.data);
+      if (!analysis) {
+        console.warn(`Ignoring display analysis "${message.data}"`);
+        return;
+      }
 
-  const getColorProgress = () => {
-    if (testState !== "running") return 0;
+      // Without an index, the analysis is for the latest showing of the pattern
+      const index =
+        analysis.index ??
+        steps
+          .slice(0, stepIndex + 1)
+          .map(({ pattern }) => pattern.id)
+          .lastIndexOf(analysis.pattern);
+      if (index < 0 || index > stepIndex) return;
+      if (steps[index].pattern.id !== analysis.pattern) return;
 
-    const timeInCurrentColor = elapsedTime % 7000;
-    return (timeInCurrentColor / 7000) * 100;
-  };
+      const { deadPixels, uniformityDeviation, deltaE } = analysis;
+      analysesRef.current = {
+        ...analysesRef.current,
+        [index]: { deadPixels, uniformityDeviation, deltaE },
+      };
+      setAnalyzedCount(Object.keys(analysesRef.current).length);
 
-  if (testState === "completed") {
+      if (
+        testState === "analyzing" &&
+        isFullyAnalyzed(shownRef.current, analysesRef.current)
+      ) {
+        finishTest(true);
+      }
+    },
+    {
+      enabled:
+        isConnected && (testState === "running" || testState === "analyzing"),
+    }
+  );
+
+  if (testState === "completed" && result) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <div className="text-center space-y-4">
-          <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          {result.testCompleted ? (
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="w-16 h-16 text-red-600 mx-auto" />
+          )}
           <h2 className="text-2xl font-bold text-gray-900">
             Display Defect Test Completed
           </h2>
+          <div className="space-y-1 text-sm text-gray-600">
+            <p>
+              Robot analysed {result.analyzedPatterns}/
+              {result.patterns.length} patterns
+            </p>
+            <p>Dead pixels: {result.deadPixels.length}</p>
+            {result.maxUniformityDeviation !== null && (
+              <p>
+                Uniformity deviation:{" "}
+                {result.maxUniformityDeviation.toFixed(1)}%
+              </p>
+            )}
+            {result.maxDeltaE !== null && (
+              <p>Colour error: ΔE {result.maxDeltaE.toFixed(2)}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (testState === "analyzing") {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <h2 className="text-2xl font-bold text-gray-900">
+            Waiting for Robot Analysis
+          </h2>
           <p className="text-gray-600">
-            Robot camera analysis completed successfully
+            {analyzedCount}/{steps.length} patterns analysed
           </p>
         </div>
       </div>
@@ -118,9 +449,9 @@ export function DisplayDefectTest({
 
   if (testState === "running") {
     return (
-      <div
-        className="fixed inset-0 w-full h-full"
-        style={{ backgroundColor: getBackgroundColor() }}
+      <canvas
+        ref={canvasRef}
+        className="fixed inset-0 z-[60] w-full h-full bg-black"
       />
     );
   }
@@ -136,8 +467,8 @@ export function DisplayDefectTest({
               Display Defect Analysis
             </h1>
             <p className="text-lg text-gray-600">
-              This test displays RGB colors on the entire screen for robot
-              camera verification.
+              This test displays full-screen colours and test patterns for
+              robot camera verification.
             </p>
           </div>
 
@@ -145,34 +476,30 @@ export function DisplayDefectTest({
             <h2 className="text-xl font-semibold text-gray-900">
               Test Process
             </h2>
+            {fiducialDuration > 0 && (
+              <p className="text-sm text-gray-600">
+                Each pattern follows {fiducialDuration / 1000} seconds of
+                alignment markers and a QR code for the robot camera.
+              </p>
+            )}
             <div className="space-y-3 text-left">
-              <div className="flex items-start space-x-3">
-                <div className="w-8 h-8 bg-red-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
-                  1
-                </div>
-                <div>
-                  <h3 className="font-medium">Red Display</h3>
-                  <p className="text-sm text-gray-600">
-                    Screen will turn red for 7 seconds
-                  </p>
+              {steps.map(({ pattern, duration }, index) => (
+                <div key={index} className="flex items-start space-x-3">
+                  <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                    {index + 1}
+                  </div>
+                  <div>
+                    <h3 className="font-medium">{pattern.title}</h3>
+                    <p className="text-sm text-gray-600">
+                      {pattern.purpose}, {duration / 1000} seconds
+                    </p>
+                  </div>
                 </div>
-              </div>
+              ))}
 
               <div className="flex items-start space-x-3">
                 <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
-                  2
-                </div>
-                <div>
-                  <h3 className="font-medium">Green Display</h3>
-                  <p className="text-sm text-gray-600">
-                    Screen will turn green for 7 seconds
-                  </p>
-                </div>
-              </div>
-
-              <div className="flex items-start space-x-3">
-                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
-                  3
+                  {steps.length + 1}
                 </div>
                 <div>
                   <h3 className="font-medium">Robot Analysis</h3>
@@ -5,41 +5,19 @@ import { TouchscreenTest } from "./touchscreen-test";
 import { ShapeTracingTest } from "./shape-tracing-test";
 import { Stepper, Step, StepStatus } from "@/components/ui/stepper";
 import { Button } from "@/components/ui/button";
-
-interface TouchPoint {
-  id: number;
-  x: number;
-  y: number;
-  timestamp: number;
-}
-
-interface TouchTestResult {
-  multiTouchSupported: boolean;
-  maxSimultaneousTouches: number;
-  averageResponseTime: number;
-  totalTouches: number;
-  testDuration: number;
-  touchPoints: TouchPoint[];
-}
-
-interface ShapeTracingResult {
-  shape: "square" | "diamond";
-  accuracy: number;
-  completionTime: number;
-  tracePoints: Array<{ x: number; y: number; timestamp: number }>;
-  totalDistance: number;
-  deviationScore: number;
-}
-
-interface EnhancedTouchTestResult {
-  basicTouch: TouchTestResult; // Keep for compatibility but create dummy data
-  squareTracing: ShapeTracingResult;
-  diamondTracing: ShapeTracingResult;
-  overallScore: number;
-}
+import {
+  TouchTestResult,
+  ShapeTracingResult,
+  EnhancedTouchTestResult,
+} from "@/lib/test-results";
+import { useTouchLatency } from "@/lib/use-touch-latency";
+import { summarizeForce } from "@/lib/pointer-contact";
 
 interface EnhancedTouchscreenTestProps {
   onTestComplete: (result: EnhancedTouchTestResult) => void;
+  tracingDuration?: number;
+  /** Longest side of each traced shape, in mm. */
+  shapeSizeMm?: number;
 }
 
 const testSteps: Step[] = [
@@ -62,6 +40,8 @@ const testSteps: Step[] = [
 
 export function EnhancedTouchscreenTest({
   onTestComplete,
+  tracingDuration = 15000,
+  shapeSizeMm = 48,
 }: EnhancedTouchscreenTestProps) {
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [stepStatuses, setStepStatuses] = useState<Record<string, StepStatus>>(
@@ -74,6 +54,9 @@ export function EnhancedTouchscreenTest({
 
   const currentStep = testSteps[currentStepIndex];
 
+  // Latency comes from the touch-downs of both tracing subtests
+  const { recordTouch, reset: resetLatency, getLatency } = useTouchLatency();
+
   const updateStepStatus = useCallback((stepId: string, status: StepStatus) => {
     setStepStatuses((prev) => ({ ...prev, [stepId]: status }));
   }, []);
@@ -112,14 +95,23 @@ export function EnhancedTouchscreenTest({
       if (squareTracingResult) {
         const overallScore = calculateOverallScore(squareTracingResult, result);
 
-        // Create dummy basic touch data for compatibility
+        // Create dummy basic touch data for compatibility; only the
+        // latency and force figures are measured, and nothing scores the rest
+        const latency = getLatency();
+        const force = summarizeForce(
+          [...squareTracingResult.tracePoints, ...result.tracePoints].flatMap(
+            (point) => (point.contact ? [point.contact] : [])
+          )
+        );
         const dummyBasicTouch: TouchTestResult = {
           multiTouchSupported: true,
           maxSimultaneousTouches: 2,
-          averageResponseTime: 50,
+          averageResponseTime: latency.frame.mean,
           totalTouches: 20,
           testDuration: 10000,
           touchPoints: [],
+          latency,
+          force,
         };
 
         const finalResult: EnhancedTouchTestResult = {
@@ -137,12 +129,14 @@ export function EnhancedTouchscreenTest({
       calculateOverallScore,
       onTestComplete,
       updateStepStatus,
+      getLatency,
     ]
   );
 
   const handleStartTest = useCallback(() => {
+    resetLatency();
     updateStepStatus("square-tracing", "active");
-  }, [updateStepStatus]);
+  }, [updateStepStatus, resetLatency]);
 
   // Initial start screen
   if (currentStepIndex === 0 && !stepStatuses["square-tracing"]) {
@@ -214,12 +208,13 @@ export function EnhancedTouchscreenTest({
       </div>
 
       {/* Current Test Content - No extra padding */}
-      <div>
+      <div onPointerDownCapture={recordTouch}>
         {currentStep.id === "square-tracing" && (
           <ShapeTracingTest
             shape="square"
             onComplete={handleSquareTracingComplete}
-            testDuration={15000}
+            testDuration={tracingDuration}
+            shapeSizeMm={shapeSizeMm}
           />
         )}
 
@@ -227,7 +222,8 @@ export function EnhancedTouchscreenTest({
           <ShapeTracingTest
             shape="diamond"
             onComplete={handleDiamondTracingComplete}
-            testDuration={15000}
+            testDuration={tracingDuration}
+            shapeSizeMm={shapeSizeMm}
           />
         )}
 
@@ -0,0 +1,317 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Play, CheckCircle, XCircle, Hand } from "lucide-react";
+import { GestureResult, GestureTestResult } from "@/lib/test-results";
+import {
+  GESTURES,
+  GestureFrame,
+  GestureTouch,
+  analyzeGesture,
+  createEmptyGestureResult,
+} from "@/lib/gestures";
+
+interface GestureTestProps {
+  onTestComplete: (result: GestureTestResult) => void;
+  showFloatingControls?: boolean;
+  /** Time allowed per gesture, in ms. */
+  gestureTimeout?: number;
+}
+
+export function GestureTest({
+  onTestComplete,
+  showFloatingControls = false,
+  gestureTimeout = 10000,
+}: GestureTestProps) {
+  const [testState, setTestState] = useState<
+    "ready" | "testing" | "completed"
+  >("ready");
+  const [gestureIndex, setGestureIndex] = useState(0);
+  const [activeTouches, setActiveTouches] = useState<GestureTouch[]>([]);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState(gestureTimeout);
+  const [result, setResult] = useState<GestureTestResult | null>(null);
+
+  const resultsRef = useRef<GestureResult[]>([]);
+  const framesRef = useRef<GestureFrame[]>([]);
+  const pointersRef = useRef<Map<number, GestureTouch>>(new Map());
+  const cancelledRef = useRef<Set<number>>(new Set());
+  // Best attempt so far, recorded if the gesture is never completed
+  const bestAttemptRef = useRef<GestureResult | null>(null);
+  const maxSimultaneousRef = useRef(0);
+  const gestureStartRef = useRef<number>(0);
+
+  const spec = GESTURES[gestureIndex];
+
+  const handleStartTest = useCallback(() => {
+    resultsRef.current = [];
+    framesRef.current = [];
+    pointersRef.current = new Map();
+    cancelledRef.current = new Set();
+    bestAttemptRef.current = null;
+    maxSimultaneousRef.current = 0;
+    gestureStartRef.current = Date.now();
+    setGestureIndex(0);
+    setActiveTouches([]);
+    setFeedback(null);
+    setTimeRemaining(gestureTimeout);
+    setResult(null);
+    setTestState("testing");
+  }, [gestureTimeout]);
+
+  const recordGesture = useCallback(
+    (gestureResult: GestureResult) => {
+      resultsRef.current = [...resultsRef.current, gestureResult];
+      framesRef.current = [];
+      pointersRef.current = new Map();
+      cancelledRef.current = new Set();
+      bestAttemptRef.current = null;
+      setActiveTouches([]);
+      setFeedback(null);
+
+      if (resultsRef.current.length < GESTURES.length) {
+        gestureStartRef.current = Date.now();
+        setTimeRemaining(gestureTimeout);
+        setGestureIndex(resultsRef.current.length);
+        return;
+      }
+
+      const gestures = resultsRef.current;
+      const gestureTestResult: GestureTestResult = {
+        gestures,
+        multiTouchSupported: maxSimultaneousRef.current > 1,
+        maxSimultaneousTouches: maxSimultaneousRef.current,
+        overallScore: Math.round(
+          gestures.reduce((sum, gesture) => sum + gesture.score, 0) /
+            gestures.length
+        ),
+      };
+
+      setResult(gestureTestResult);
+      setTestState("completed");
+      onTestComplete(gestureTestResult);
+    },
+    [gestureTimeout, onTestComplete]
+  );
+
+  // Score the attempt once every finger has lifted
+  const finishAttempt = useCallback(() => {
+    const attempt = analyzeGesture(
+      spec,
+      framesRef.current,
+      cancelledRef.current,
+      { width: window.innerWidth, height: window.innerHeight }
+    );
+    framesRef.current = [];
+    cancelledRef.current = new Set();
+
+    if (attempt.paths.length === 0) {
+      setFeedback(`Use ${spec.fingers} fingers at once`);
+      return;
+    }
+    if (attempt.completed) {
+      recordGesture(attempt);
+      return;
+    }
+
+    if (
+      !bestAttemptRef.current ||
+      attempt.score > bestAttemptRef.current.score
+    ) {
+      bestAttemptRef.current = attempt;
+    }
+    setFeedback(
+      attempt.droppedIdentifiers.length > 0
+        ? "A finger was lost mid-gesture, try again"
+        : "Not far enough, try again"
+    );
+  }, [spec, recordGesture]);
+
+  // Snapshot every pressed pointer after each event, as one frame
+  const handlePointer = useCallback(
+    (e: React.PointerEvent) => {
+      if (testState !== "testing") return;
+
+      const pointers = pointersRef.current;
+      if (e.type === "pointerdown") {
+        pointers.set(e.pointerId, {
+          id: e.pointerId,
+          x: e.clientX,
+          y: e.clientY,
+        });
+      } else if (!pointers.has(e.pointerId)) {
+        // A hovering mouse or pen is not part of the gesture
+        return;
+      } else if (e.type === "pointermove") {
+        pointers.set(e.pointerId, {
+          id: e.pointerId,
+          x: e.clientX,
+          y: e.clientY,
+        });
+      } else {
+        if (e.type === "pointercancel") cancelledRef.current.add(e.pointerId);
+        pointers.delete(e.pointerId);
+      }
+      e.preventDefault();
+
+      const touches = Array.from(pointers.values());
+      framesRef.current.push({ timestamp: Date.now(), touches });
+      maxSimultaneousRef.current = Math.max(
+        maxSimultaneousRef.current,
+        touches.length
+      );
+      setActiveTouches(touches);
+
+      if (touches.length === 0) finishAttempt();
+    },
+    [testState, finishAttempt]
+  );
+
+  // Per-gesture time limit
+  useEffect(() => {
+    if (testState !== "testing") return;
+
+    const timer = setInterval(() => {
+      const remaining = gestureTimeout - (Date.now() - gestureStartRef.current);
+      setTimeRemaining(Math.max(0, remaining));
+      if (remaining <= 0) {
+        clearInterval(timer);
+        recordGesture(bestAttemptRef.current ?? createEmptyGestureResult(spec));
+      }
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [testState, gestureIndex, gestureTimeout, spec, recordGesture]);
+
+  if (testState === "completed" && result) {
+    const passed = result.gestures.every((gesture) => gesture.completed);
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          {passed ? (
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="w-16 h-16 text-red-600 mx-auto" />
+          )}
+          <h2
+            className={`text-2xl font-bold ${
+              passed ? "text-green-900" : "text-red-900"
+            }`}
+          >
+            Gesture Score {result.overallScore}%
+          </h2>
+          <div className="space-y-1 text-sm text-gray-600">
+            {result.gestures.map((gesture, index) => (
+              <p key={gesture.gesture}>
+                {GESTURES[index].title}: {gesture.score}%
+                {gesture.completed ? "" : " (not completed)"}
+              </p>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (testState === "testing") {
+    return (
+      <div
+        className="fixed inset-0 z-[60] touch-none select-none bg-white"
+        onPointerDown={handlePointer}
+        onPointerMove={handlePointer}
+        onPointerUp={handlePointer}
+        onPointerCancel={handlePointer}
+      >
+        {/* Prompt - does not intercept touches */}
+        <div className="pointer-events-none absolute inset-x-0 top-1/3 text-center space-y-2 px-6">
+          <p className="text-sm text-gray-500">
+            Gesture {gestureIndex + 1}/{GESTURES.length} ·{" "}
+            {Math.ceil(timeRemaining / 1000)}s
+          </p>
+          <h2 className="text-2xl font-bold text-gray-900">{spec.title}</h2>
+          <p className="text-gray-600">{spec.instruction}</p>
+          {feedback && <p className="text-orange-600">{feedback}</p>}
+        </div>
+
+        {activeTouches.map((touch) => (
+          <div
+            key={touch.id}
+            className="pointer-events-none absolute w-16 h-16 -ml-8 -mt-8 rounded-full bg-blue-500/40 border-2 border-blue-600"
+            style={{ left: touch.x, top: touch.y }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  // Ready state
+  return (
+    <div className="min-h-screen bg-gray-50 relative">
+      <div className="p-6">
+        <div className="max-w-2xl mx-auto text-center space-y-6">
+          <div className="space-y-4">
+            <Hand className="w-16 h-16 text-blue-600 mx-auto" />
+            <h1 className="text-3xl font-bold text-gray-900">
+              Multi-touch Gesture Test
+            </h1>
+            <p className="text-lg text-gray-600">
+              Perform each gesture when prompted. Finger paths are tracked to
+              measure pinch scale, rotation and whether every finger stays
+              tracked for the whole gesture.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">Gestures</h2>
+            <div className="space-y-4 text-left">
+              {GESTURES.map((gesture, index) => (
+                <div
+                  key={gesture.gesture}
+                  className="flex items-start space-x-3"
+                >
+                  <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                    {index + 1}
+                  </div>
+                  <div>
+                    <h3 className="font-medium">{gesture.title}</h3>
+                    <p className="text-sm text-gray-600">
+                      {gesture.instruction}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500">
+              Each gesture can be retried for {gestureTimeout / 1000} seconds
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Floating Start Button */}
+      {showFloatingControls ? (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-sm px-6 py-2 shadow-lg"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      ) : (
+        <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-lg px-8 py-3 shadow-lg"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
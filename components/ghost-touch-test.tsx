@@ -0,0 +1,393 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Play, CheckCircle, XCircle, Ghost } from "lucide-react";
+import {
+  GhostTouch,
+  GhostTouchResult,
+  TapTarget,
+} from "@/lib/test-results";
+import { useRos } from "@/lib/use-ros";
+import { useScreenCalibration } from "@/lib/use-screen-calibration";
+import { adaptTypeName } from "@/lib/ros-dialect";
+import { STRING_MESSAGE_TYPE } from "@/lib/orchestration";
+import { mmToPx } from "@/lib/screen-units";
+import { TestThresholds } from "@/lib/test-plugin";
+import {
+  TAP_TARGET_TOPIC,
+  createTapTargetMessage,
+  createTapTargets,
+} from "@/lib/tap-accuracy";
+
+interface GhostTouchTestProps {
+  onTestComplete: (result: GhostTouchResult) => void;
+  showFloatingControls?: boolean;
+  /** How long the screen must be left untouched, in ms. */
+  idleDuration?: number;
+  targetCount?: number;
+  /** Time allowed per target before moving on, in ms. */
+  targetTimeout?: number;
+  /** The plan's thresholds; `maxGhostTouches` decides the verdict shown. */
+  thresholds?: TestThresholds;
+}
+
+// Touches further than this from the commanded target are ghosts
+const TARGET_RADIUS_MM = 5;
+
+interface OpenTouch {
+  touch: GhostTouch;
+  onTarget: boolean;
+}
+
+export function GhostTouchTest({
+  onTestComplete,
+  showFloatingControls = false,
+  idleDuration = 10000,
+  targetCount = 5,
+  targetTimeout = 5000,
+  thresholds,
+}: GhostTouchTestProps) {
+  const [testState, setTestState] = useState<
+    "ready" | "idle" | "targets" | "completed"
+  >("ready");
+  const [timeRemaining, setTimeRemaining] = useState(idleDuration);
+  const [idleTouchCount, setIdleTouchCount] = useState(0);
+  const [targets, setTargets] = useState<TapTarget[]>([]);
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [result, setResult] = useState<GhostTouchResult | null>(null);
+
+  const startTimeRef = useRef<number>(0);
+  const openTouchesRef = useRef<Map<number, OpenTouch>>(new Map());
+  const idleTouchesRef = useRef<GhostTouch[]>([]);
+  const ghostTouchesRef = useRef<GhostTouch[]>([]);
+  const targetsHitRef = useRef(0);
+  const viewportRef = useRef({ width: 0, height: 0 });
+
+  const { isConnected, publishMessage, rosVersion } = useRos();
+
+  const { pxPerMm } = useScreenCalibration();
+  // Fixed at start so the targets and hit radius of a run share one
+  // calibration
+  const pxPerMmRef = useRef(pxPerMm);
+  const targetRadius = mmToPx(TARGET_RADIUS_MM, pxPerMmRef.current);
+
+  const recordGhost = useCallback((touch: GhostTouch) => {
+    if (touch.phase === "idle") {
+      idleTouchesRef.current = [...idleTouchesRef.current, touch];
+      setIdleTouchCount(idleTouchesRef.current.length);
+    } else {
+      ghostTouchesRef.current = [...ghostTouchesRef.current, touch];
+    }
+  }, []);
+
+  // Close touches still down when a phase ends, so each phase owns its own
+  const closeOpenTouches = useCallback(() => {
+    const now = Date.now() - startTimeRef.current;
+    openTouchesRef.current.forEach(({ touch, onTarget }) => {
+      if (!onTarget) recordGhost({ ...touch, duration: now - touch.startTime });
+    });
+    openTouchesRef.current = new Map();
+  }, [recordGhost]);
+
+  const handleStartTest = useCallback(() => {
+    const viewport = { width: window.innerWidth, height: window.innerHeight };
+    viewportRef.current = viewport;
+    pxPerMmRef.current = pxPerMm;
+    startTimeRef.current = Date.now();
+    openTouchesRef.current = new Map();
+    idleTouchesRef.current = [];
+    ghostTouchesRef.current = [];
+    targetsHitRef.current = 0;
+    setIdleTouchCount(0);
+    setTargets(createTapTargets(targetCount, viewport, pxPerMm));
+    setTargetIndex(0);
+    setTimeRemaining(idleDuration);
+    setResult(null);
+    setTestState("idle");
+  }, [targetCount, idleDuration, pxPerMm]);
+
+  const finishTest = useCallback(() => {
+    closeOpenTouches();
+
+    const ghostResult: GhostTouchResult = {
+      idleDuration,
+      idleTouches: idleTouchesRef.current,
+      ghostTouches: ghostTouchesRef.current,
+      targetCount: targets.length,
+      targetsHit: targetsHitRef.current,
+      viewport: viewportRef.current,
+      testDuration: Date.now() - startTimeRef.current,
+    };
+
+    setResult(ghostResult);
+    setTestState("completed");
+    onTestComplete(ghostResult);
+  }, [closeOpenTouches, idleDuration, targets, onTestComplete]);
+
+  const nextTarget = useCallback(() => {
+    if (targetIndex + 1 >= targets.length) {
+      finishTest();
+    } else {
+      setTargetIndex(targetIndex + 1);
+    }
+  }, [targetIndex, targets, finishTest]);
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (testState !== "idle" && testState !== "targets") return;
+      e.preventDefault();
+
+      const target = targets[targetIndex];
+      const onTarget =
+        testState === "targets" &&
+        target !== undefined &&
+        Math.hypot(e.clientX - target.x, e.clientY - target.y) <= targetRadius;
+
+      openTouchesRef.current.set(e.pointerId, {
+        touch: {
+          phase: testState,
+          x: e.clientX,
+          y: e.clientY,
+          startTime: Date.now() - startTimeRef.current,
+          duration: 0,
+        },
+        onTarget,
+      });
+
+      if (onTarget) {
+        targetsHitRef.current++;
+        nextTarget();
+      }
+    },
+    [testState, targets, targetIndex, targetRadius, nextTarget]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      if (testState !== "idle" && testState !== "targets") return;
+      e.preventDefault();
+
+      const open = openTouchesRef.current.get(e.pointerId);
+      if (!open) return;
+
+      openTouchesRef.current.delete(e.pointerId);
+      if (!open.onTarget) {
+        recordGhost({
+          ...open.touch,
+          duration: Date.now() - startTimeRef.current - open.touch.startTime,
+        });
+      }
+    },
+    [testState, recordGhost]
+  );
+
+  // Idle phase countdown
+  useEffect(() => {
+    if (testState !== "idle") return;
+
+    const timer = setInterval(() => {
+      const remaining = idleDuration - (Date.now() - startTimeRef.current);
+      setTimeRemaining(Math.max(0, remaining));
+      if (remaining <= 0) {
+        clearInterval(timer);
+        if (targets.length === 0) {
+          finishTest();
+        } else {
+          closeOpenTouches();
+          setTestState("targets");
+        }
+      }
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [testState, idleDuration, targets, closeOpenTouches, finishTest]);
+
+  // Tell the robot where the current target is
+  useEffect(() => {
+    if (testState !== "targets" || !isConnected) return;
+    const target = targets[targetIndex];
+    if (!target) return;
+
+    publishMessage(
+      TAP_TARGET_TOPIC,
+      adaptTypeName(STRING_MESSAGE_TYPE, rosVersion),
+      createTapTargetMessage(target, targets.length, viewportRef.current)
+    );
+  }, [
+    testState,
+    isConnected,
+    targets,
+    targetIndex,
+    publishMessage,
+    rosVersion,
+  ]);
+
+  // Per-target timeout
+  useEffect(() => {
+    if (testState !== "targets") return;
+
+    const timer = setTimeout(nextTarget, targetTimeout);
+    return () => clearTimeout(timer);
+  }, [testState, targetIndex, targetTimeout, nextTarget]);
+
+  if (testState === "completed" && result) {
+    const ghostCount = result.idleTouches.length + result.ghostTouches.length;
+    const passed = ghostCount <= (thresholds?.maxGhostTouches ?? 0);
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          {passed ? (
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="w-16 h-16 text-red-600 mx-auto" />
+          )}
+          <h2
+            className={`text-2xl font-bold ${
+              passed ? "text-green-900" : "text-red-900"
+            }`}
+          >
+            {ghostCount === 0
+              ? "No Ghost Touches"
+              : `${ghostCount} Ghost Touches`}
+          </h2>
+          <p className="text-gray-600">
+            {result.idleTouches.length} while idle,{" "}
+            {result.ghostTouches.length} off target.{" "}
+            {result.targetsHit}/{result.targetCount} targets hit
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (testState === "idle") {
+    return (
+      <div
+        className="fixed inset-0 z-[60] touch-none select-none bg-gray-900 flex items-center justify-center"
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div className="pointer-events-none text-center space-y-2">
+          <p className="text-2xl font-bold text-white">Do not touch</p>
+          <p className="text-4xl font-mono text-white">
+            {Math.ceil(timeRemaining / 1000)}s
+          </p>
+          {idleTouchCount > 0 && (
+            <p className="text-red-400">
+              {idleTouchCount} unexpected touch
+              {idleTouchCount === 1 ? "" : "es"}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (testState === "targets") {
+    const target = targets[targetIndex];
+
+    return (
+      <div
+        className="fixed inset-0 z-[60] touch-none select-none bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {target && (
+          <div
+            className="pointer-events-none absolute rounded-full border-2 border-red-500 bg-red-500/20"
+            style={{
+              left: target.x - targetRadius,
+              top: target.y - targetRadius,
+              width: targetRadius * 2,
+              height: targetRadius * 2,
+            }}
+          />
+        )}
+
+        {/* Progress - does not intercept touches */}
+        <div className="pointer-events-none fixed top-4 left-1/2 -translate-x-1/2 bg-black/60 text-white px-4 py-2 rounded-full text-sm font-mono">
+          {targetIndex + 1}/{targets.length}
+        </div>
+      </div>
+    );
+  }
+
+  // Ready state
+  return (
+    <div className="min-h-screen bg-gray-50 relative">
+      <div className="p-6">
+        <div className="max-w-2xl mx-auto text-center space-y-6">
+          <div className="space-y-4">
+            <Ghost className="w-16 h-16 text-blue-600 mx-auto" />
+            <h1 className="text-3xl font-bold text-gray-900">
+              Ghost Touch Test
+            </h1>
+            <p className="text-lg text-gray-600">
+              Detects phantom touches from cracked or water-damaged screens.
+              Any touch the screen reports without being asked for is flagged.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Test Instructions
+            </h2>
+            <div className="space-y-4 text-left">
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  1
+                </div>
+                <div>
+                  <h3 className="font-medium">Hands Off</h3>
+                  <p className="text-sm text-gray-600">
+                    Leave the screen untouched for {idleDuration / 1000}{" "}
+                    seconds
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  2
+                </div>
+                <div>
+                  <h3 className="font-medium">Tap the Targets</h3>
+                  <p className="text-sm text-gray-600">
+                    Tap each of the {targetCount} red targets and nothing else
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Floating Start Button */}
+      {showFloatingControls ? (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-sm px-6 py-2 shadow-lg"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      ) : (
+        <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-lg px-8 py-3 shadow-lg"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { GridCoverageResult } from "@/lib/test-results";
+
+interface GridCoverageHeatmapProps {
+  result: GridCoverageResult;
+}
+
+// Green intensity scales with touch samples per cell; dead cells are red
+function cellColor(hits: number, maxHits: number) {
+  if (hits === 0) return "rgb(220, 38, 38)";
+  const intensity = Math.log(hits + 1) / Math.log(maxHits + 1);
+  const alpha = 0.25 + intensity * 0.75;
+  return `rgba(22, 163, 74, ${alpha.toFixed(2)})`;
+}
+
+export function GridCoverageHeatmap({ result }: GridCoverageHeatmapProps) {
+  const maxHits = Math.max(1, ...result.hitMap.flat());
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="grid gap-px bg-gray-200 border border-gray-200 mx-auto max-w-xs"
+        style={{
+          gridTemplateRows: `repeat(${result.rows}, 1fr)`,
+          gridTemplateColumns: `repeat(${result.columns}, 1fr)`,
+          aspectRatio: `${result.viewport.width} / ${result.viewport.height}`,
+        }}
+      >
+        {result.hitMap.map((cells, row) =>
+          cells.map((hits, column) => (
+            <div
+              key={`${row}-${column}`}
+              title={`Row ${row + 1}, column ${column + 1}: ${hits} samples`}
+              style={{ backgroundColor: cellColor(hits, maxHits) }}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center justify-center space-x-4 text-xs text-gray-600">
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 bg-green-600" />
+          <span>Touched</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 bg-red-600" />
+          <span>Dead ({result.deadCells.length})</span>
+        </span>
+        <span>{result.coverage.toFixed(1)}% coverage</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Play, CheckCircle, XCircle, Grid3x3 } from "lucide-react";
+import { GridCell, GridCoverageResult } from "@/lib/test-results";
+
+interface GridCoverageTestProps {
+  onTestComplete: (result: GridCoverageResult) => void;
+  showFloatingControls?: boolean;
+  rows?: number;
+  columns?: number;
+  /** Time allowed to touch every cell, in ms. */
+  timeLimit?: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+function createHitMap(rows: number, columns: number) {
+  return Array.from({ length: rows }, () => Array<number>(columns).fill(0));
+}
+
+export function GridCoverageTest({
+  onTestComplete,
+  showFloatingControls = false,
+  rows = 8,
+  columns = 6,
+  timeLimit = 30000,
+}: GridCoverageTestProps) {
+  const [testState, setTestState] = useState<
+    "ready" | "testing" | "completed"
+  >("ready");
+  const [hitMap, setHitMap] = useState<number[][]>(() =>
+    createHitMap(rows, columns)
+  );
+  const [timeRemaining, setTimeRemaining] = useState(timeLimit);
+  const [result, setResult] = useState<GridCoverageResult | null>(null);
+
+  const hitMapRef = useRef<number[][]>(hitMap);
+  const lastPointsRef = useRef<Map<number, Point>>(new Map());
+  const startTimeRef = useRef<number>(0);
+  const finishedRef = useRef(false);
+
+  const handleStartTest = useCallback(() => {
+    const emptyMap = createHitMap(rows, columns);
+    hitMapRef.current = emptyMap;
+    lastPointsRef.current = new Map();
+    startTimeRef.current = Date.now();
+    finishedRef.current = false;
+    setHitMap(emptyMap);
+    setTimeRemaining(timeLimit);
+    setResult(null);
+    setTestState("testing");
+  }, [rows, columns, timeLimit]);
+
+  const finishTest = useCallback(() => {
+    // Full coverage and the time limit can land in the same tick
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+
+    const finalMap = hitMapRef.current;
+    const deadCells: GridCell[] = [];
+    finalMap.forEach((cells, row) =>
+      cells.forEach((hits, column) => {
+        if (hits === 0) deadCells.push({ row, column });
+      })
+    );
+
+    const totalCells = rows * columns;
+    const gridResult: GridCoverageResult = {
+      rows,
+      columns,
+      hitMap: finalMap.map((cells) => [...cells]),
+      deadCells,
+      coverage: ((totalCells - deadCells.length) / totalCells) * 100,
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      testDuration: Date.now() - startTimeRef.current,
+    };
+
+    setResult(gridResult);
+    setTestState("completed");
+    onTestComplete(gridResult);
+  }, [rows, columns, onTestComplete]);
+
+  // Mark every cell on the segment from `from` to `to`, so a fast swipe
+  // still counts the cells it crossed between two touchmove samples
+  const markSegment = useCallback(
+    (from: Point, to: Point) => {
+      const cellWidth = window.innerWidth / columns;
+      const cellHeight = window.innerHeight / rows;
+      const step = Math.min(cellWidth, cellHeight) / 2;
+      const distance = Math.hypot(to.x - from.x, to.y - from.y);
+      const samples = Math.max(1, Math.ceil(distance / step));
+
+      const next = hitMapRef.current.map((cells) => [...cells]);
+      for (let i = 0; i <= samples; i++) {
+        const x = from.x + ((to.x - from.x) * i) / samples;
+        const y = from.y + ((to.y - from.y) * i) / samples;
+        const row = Math.min(
+          rows - 1,
+          Math.max(0, Math.floor(y / cellHeight))
+        );
+        const column = Math.min(
+          columns - 1,
+          Math.max(0, Math.floor(x / cellWidth))
+        );
+        // The segment start was already counted by the previous sample
+        if (i > 0 || distance === 0) next[row][column]++;
+      }
+
+      hitMapRef.current = next;
+      setHitMap(next);
+    },
+    [rows, columns]
+  );
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (testState !== "testing") return;
+      e.preventDefault();
+
+      const point = { x: e.clientX, y: e.clientY };
+      markSegment(point, point);
+      lastPointsRef.current.set(e.pointerId, point);
+    },
+    [testState, markSegment]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (testState !== "testing") return;
+
+      // Only pressed pointers paint; a hovering mouse or pen does not
+      const last = lastPointsRef.current.get(e.pointerId);
+      if (!last) return;
+
+      e.preventDefault();
+      const point = { x: e.clientX, y: e.clientY };
+      markSegment(last, point);
+      lastPointsRef.current.set(e.pointerId, point);
+    },
+    [testState, markSegment]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      if (testState !== "testing") return;
+      e.preventDefault();
+      lastPointsRef.current.delete(e.pointerId);
+    },
+    [testState]
+  );
+
+  // Finish as soon as every cell has been hit
+  useEffect(() => {
+    if (testState !== "testing") return;
+    if (hitMap.every((cells) => cells.every((hits) => hits > 0))) {
+      finishTest();
+    }
+  }, [testState, hitMap, finishTest]);
+
+  // Time limit
+  useEffect(() => {
+    if (testState !== "testing") return;
+
+    const timer = setInterval(() => {
+      const remaining = timeLimit - (Date.now() - startTimeRef.current);
+      setTimeRemaining(Math.max(0, remaining));
+      if (remaining <= 0) {
+        clearInterval(timer);
+        finishTest();
+      }
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [testState, timeLimit, finishTest]);
+
+  if (testState === "completed" && result) {
+    const passed = result.deadCells.length === 0;
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          {passed ? (
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="w-16 h-16 text-red-600 mx-auto" />
+          )}
+          <h2
+            className={`text-2xl font-bold ${
+              passed ? "text-green-900" : "text-red-900"
+            }`}
+          >
+            Touch Coverage {result.coverage.toFixed(1)}%
+          </h2>
+          <p className="text-gray-600">
+            {passed
+              ? "Every cell responded to touch"
+              : `${result.deadCells.length} of ${
+                  rows * columns
+                } cells never registered a touch`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (testState === "testing") {
+    return (
+      <div
+        className="fixed inset-0 z-[60] grid touch-none select-none bg-white"
+        style={{
+          gridTemplateRows: `repeat(${rows}, 1fr)`,
+          gridTemplateColumns: `repeat(${columns}, 1fr)`,
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {hitMap.map((cells, row) =>
+          cells.map((hits, column) => (
+            <div
+              key={`${row}-${column}`}
+              className={`border border-gray-200 transition-colors duration-150 ${
+                hits > 0 ? "bg-green-500" : "bg-white"
+              }`}
+            />
+          ))
+        )}
+
+        {/* Countdown - does not intercept touches */}
+        <div className="pointer-events-none fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-black/60 text-white px-4 py-2 rounded-full text-sm font-mono">
+          {Math.ceil(timeRemaining / 1000)}s
+        </div>
+      </div>
+    );
+  }
+
+  // Ready state
+  return (
+    <div className="min-h-screen bg-gray-50 relative">
+      <div className="p-6">
+        <div className="max-w-2xl mx-auto text-center space-y-6">
+          <div className="space-y-4">
+            <Grid3x3 className="w-16 h-16 text-blue-600 mx-auto" />
+            <h1 className="text-3xl font-bold text-gray-900">
+              Touch Coverage Test
+            </h1>
+            <p className="text-lg text-gray-600">
+              The whole screen is split into a {columns}×{rows} grid. Every cell
+              must register a touch to find dead zones in the digitizer.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Test Instructions
+            </h2>
+            <div className="space-y-4 text-left">
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  1
+                </div>
+                <div>
+                  <h3 className="font-medium">Cover the Grid</h3>
+                  <p className="text-sm text-gray-600">
+                    Tap or swipe through every cell, including the screen edges
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  2
+                </div>
+                <div>
+                  <h3 className="font-medium">Watch Cells Turn Green</h3>
+                  <p className="text-sm text-gray-600">
+                    A cell turns green once a touch has been detected inside it
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-purple-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  3
+                </div>
+                <div>
+                  <h3 className="font-medium">Result</h3>
+                  <p className="text-sm text-gray-600">
+                    The test ends when every cell is green or after{" "}
+                    {timeLimit / 1000} seconds
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Floating Start Button */}
+      {showFloatingControls ? (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-sm px-6 py-2 shadow-lg"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      ) : (
+        <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-lg px-8 py-3 shadow-lg"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,22 +3,19 @@
 import { useState, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Play, CheckCircle, XCircle, Timer, Smartphone } from "lucide-react";
-
-interface ProximitySensorResult {
-  sensorActivated: boolean;
-  activationTime: number;
-  testDuration: number;
-  success: boolean;
-}
+import { ProximitySensorResult } from "@/lib/test-results";
 
 interface ProximitySensorTestProps {
   onTestComplete: (result: ProximitySensorResult) => void;
   showFloatingControls?: boolean;
+  /** How long the robot has to cover the sensor, in ms. */
+  detectionWindow?: number;
 }
 
 export function ProximitySensorTest({
   onTestComplete,
   showFloatingControls = false,
+  detectionWindow = 10000,
 }: ProximitySensorTestProps) {
   const [testState, setTestState] = useState<
     "ready" | "countdown" | "testing" | "completed"
@@ -27,15 +24,17 @@ export function ProximitySensorTest({
   const [startTime, setStartTime] = useState<number>(0);
   const [sensorActivated, setSensorActivated] = useState<boolean>(false);
   const [activationTime, setActivationTime] = useState<number>(0);
-  const [timeRemaining, setTimeRemaining] = useState<number>(10);
+  const [timeRemaining, setTimeRemaining] = useState<number>(
+    detectionWindow / 1000
+  );
 
   const handleStartTest = useCallback(() => {
     setTestState("countdown");
     setCountdown(10);
     setSensorActivated(false);
     setActivationTime(0);
-    setTimeRemaining(10);
-  }, []);
+    setTimeRemaining(detectionWindow / 1000);
+  }, [detectionWindow]);
 
   // Proximity sensor event handler
   const handleProximityChange = useCallback(
@@ -94,14 +93,14 @@ export function ProximitySensorTest({
       // Update time remaining every 100ms
       const timeUpdateInterval = setInterval(() => {
         const elapsed = Date.now() - startTime;
-        const remaining = Math.max(0, Math.ceil((10000 - elapsed) / 1000));
+        const remaining = Math.max(0, Math.ceil((detectionWindow - elapsed) / 1000));
         setTimeRemaining(remaining);
-        if (elapsed >= 10000) {
+        if (elapsed >= detectionWindow) {
           clearInterval(timeUpdateInterval);
         }
       }, 100);
 
-      // 10-second test timer
+      // Detection window timer
       const testTimer = setTimeout(() => {
         const duration = Date.now() - startTime;
         const result: ProximitySensorResult = {
@@ -113,7 +112,7 @@ export function ProximitySensorTest({
 
         setTestState("completed");
         onTestComplete(result);
-      }, 10000);
+      }, detectionWindow);
 
       return () => {
         if (hasProximitySensor) {
@@ -130,6 +129,7 @@ export function ProximitySensorTest({
     activationTime,
     handleProximityChange,
     onTestComplete,
+    detectionWindow,
   ]);
 
   const getTimeRemaining = () => {
@@ -160,7 +160,8 @@ export function ProximitySensorTest({
                 Proximity Sensor Test Failed
               </h2>
               <p className="text-gray-600">
-                Sensor was not activated within 10 seconds
+                Sensor was not activated within {detectionWindow / 1000}{" "}
+                seconds
               </p>
             </>
           )}
@@ -272,7 +273,8 @@ export function ProximitySensorTest({
                 <div>
                   <h3 className="font-medium">Test Preparation</h3>
                   <p className="text-sm text-gray-600">
-                    Robot will have 10 seconds to cover the proximity sensor
+                    Robot will have {detectionWindow / 1000} seconds to cover
+                    the proximity sensor
                   </p>
                 </div>
               </div>
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ReconnectOptions,
+  RosContext,
+  useRosConnection,
+} from "@/lib/use-ros";
+import { RosVersionSetting, resolveRosVersion } from "@/lib/ros-dialect";
+
+interface RosProviderProps {
+  children: React.ReactNode;
+  defaultUrl?: string;
+  reconnect?: ReconnectOptions;
+  autoConnect?: boolean;
+}
+
+export function RosProvider({
+  children,
+  defaultUrl = "ws://localhost:9090",
+  reconnect,
+  autoConnect = true,
+}: RosProviderProps) {
+  const [url, setUrl] = useState(defaultUrl);
+  const [rosVersionSetting, setRosVersionSetting] =
+    useState<RosVersionSetting>("auto");
+  const connection = useRosConnection({ url, reconnect });
+  const rosVersion = resolveRosVersion(
+    rosVersionSetting,
+    connection.detectedRosVersion
+  );
+  const { connect } = connection;
+
+  // Auto-connect on mount
+  useEffect(() => {
+    if (autoConnect) connect();
+  }, [autoConnect, connect]);
+
+  return (
+    <RosContext.Provider
+      value={{
+        ...connection,
+        url,
+        setUrl,
+        rosVersion,
+        rosVersionSetting,
+        setRosVersionSetting,
+      }}
+    >
+      {children}
+    </RosContext.Provider>
+  );
+}
@@ -2,32 +2,45 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-
-interface TracePoint {
-  x: number;
-  y: number;
-  timestamp: number;
-}
-
-interface ShapeTracingResult {
-  shape: "square" | "diamond";
-  accuracy: number; // 0-100 percentage
-  completionTime: number;
-  tracePoints: Array<{ x: number; y: number; timestamp: number }>;
-  totalDistance: number;
-  deviationScore: number;
-}
+import {
+  TracePoint,
+  ShapeTracingResult,
+  TracingShape,
+} from "@/lib/test-results";
+import { readPointerContact } from "@/lib/pointer-contact";
+import {
+  SampledShape,
+  TRACING_SHAPES,
+  sampleShapePath,
+} from "@/lib/tracing-shapes";
+import { scoreTrace, splitStrokes } from "@/lib/trace-scoring";
+import { mmToPx, pxToMm } from "@/lib/screen-units";
+import { useScreenCalibration } from "@/lib/use-screen-calibration";
 
 interface ShapeTracingTestProps {
-  shape: "square" | "diamond";
+  shape: TracingShape;
+  /** SVG path to trace; required for custom shapes. */
+  path?: string;
+  title?: string;
   onComplete: (result: ShapeTracingResult) => void;
   testDuration?: number;
+  /** Longest side of the shape on screen, in mm. */
+  shapeSizeMm?: number;
 }
 
+// The canvas keeps the original 350:180 margin around the shape
+const CANVAS_TO_SHAPE = 350 / 180;
+// Screen space kept free for padding, the status bar and the finish button
+const HORIZONTAL_MARGIN = 64;
+const VERTICAL_MARGIN = 200;
+
 export function ShapeTracingTest({
   shape,
+  path,
+  title,
   onComplete,
   testDuration = 15000,
+  shapeSizeMm = 48,
 }: ShapeTracingTestProps) {
   const [isTracing, setIsTracing] = useState(false);
   const [hasStarted, setHasStarted] = useState(false);
@@ -38,134 +51,93 @@ export function ShapeTracingTest({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentPath = useRef<TracePoint[]>([]);
+  // The timer outlives the render that started it, so it finishes through
+  // this ref to score with the current size and calibration
+  const finishTestRef = useRef<() => void>(() => {});
+
+  const { pxPerMm: livePxPerMm } = useScreenCalibration();
+  // Follows the calibration until tracing starts, then holds it so the
+  // outline is never rescaled under points already captured
+  const pxPerMmRef = useRef(livePxPerMm);
+  if (!hasStarted) pxPerMmRef.current = livePxPerMm;
+  const pxPerMm = pxPerMmRef.current;
+  const [screen, setScreen] = useState({
+    maxCanvasSize: Infinity,
+    pixelRatio: 1,
+  });
 
-  const shapeSize = 180;
-  const centerX = 175;
-  const centerY = 175;
-
-  // Generate ideal shape points for comparison
-  const generateIdealShapePoints = useCallback(
-    (shape: "square" | "diamond"): TracePoint[] => {
-      const points: TracePoint[] = [];
-      const numPoints = 100;
-
-      if (shape === "square") {
-        const halfSize = shapeSize / 2;
-        // Top edge
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX - halfSize + (i / (numPoints / 4)) * shapeSize,
-            y: centerY - halfSize,
-            timestamp: 0,
-          });
-        }
-        // Right edge
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX + halfSize,
-            y: centerY - halfSize + (i / (numPoints / 4)) * shapeSize,
-            timestamp: 0,
-          });
-        }
-        // Bottom edge
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX + halfSize - (i / (numPoints / 4)) * shapeSize,
-            y: centerY + halfSize,
-            timestamp: 0,
-          });
-        }
-        // Left edge
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX - halfSize,
-            y: centerY + halfSize - (i / (numPoints / 4)) * shapeSize,
-            timestamp: 0,
-          });
-        }
-      } else if (shape === "diamond") {
-        const halfSize = shapeSize / 2;
-        // Top to right
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX + (i / (numPoints / 4)) * halfSize,
-            y: centerY - halfSize + (i / (numPoints / 4)) * halfSize,
-            timestamp: 0,
-          });
-        }
-        // Right to bottom
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX + halfSize - (i / (numPoints / 4)) * halfSize,
-            y: centerY + (i / (numPoints / 4)) * halfSize,
-            timestamp: 0,
-          });
-        }
-        // Bottom to left
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX - (i / (numPoints / 4)) * halfSize,
-            y: centerY + halfSize - (i / (numPoints / 4)) * halfSize,
-            timestamp: 0,
-          });
-        }
-        // Left to top
-        for (let i = 0; i < numPoints / 4; i++) {
-          points.push({
-            x: centerX - halfSize + (i / (numPoints / 4)) * halfSize,
-            y: centerY - (i / (numPoints / 4)) * halfSize,
-            timestamp: 0,
-          });
-        }
-      }
-
-      return points;
-    },
-    [shape, shapeSize, centerX, centerY]
-  );
-
-  const calculateAccuracy = useCallback(
-    (userPoints: TracePoint[], idealPoints: TracePoint[]): number => {
-      if (userPoints.length === 0) return 0;
-
-      let totalDeviation = 0;
-      let validPoints = 0;
-
-      userPoints.forEach((userPoint) => {
-        // Find the closest ideal point
-        let minDistance = Infinity;
-        idealPoints.forEach((idealPoint) => {
-          const distance = Math.sqrt(
-            Math.pow(userPoint.x - idealPoint.x, 2) +
-              Math.pow(userPoint.y - idealPoint.y, 2)
-          );
-          minDistance = Math.min(minDistance, distance);
-        });
-
-        if (minDistance < 50) {
-          // Only count points within reasonable distance
-          totalDeviation += minDistance;
-          validPoints++;
-        }
-      });
+  useEffect(() => {
+    setScreen({
+      maxCanvasSize: Math.min(
+        window.innerWidth - HORIZONTAL_MARGIN,
+        window.innerHeight - VERTICAL_MARGIN
+      ),
+      pixelRatio: window.devicePixelRatio || 1,
+    });
+  }, []);
 
-      if (validPoints === 0) return 0;
+  // Sized in mm, shrunk only if the screen is too small to fit it
+  const requestedCanvasSize = mmToPx(shapeSizeMm * CANVAS_TO_SHAPE, pxPerMm);
+  const canvasSize = Math.min(requestedCanvasSize, screen.maxCanvasSize);
+  const shapeSize = canvasSize / CANVAS_TO_SHAPE;
+  const centerX = canvasSize / 2;
+  const centerY = canvasSize / 2;
 
-      const averageDeviation = totalDeviation / validPoints;
-      const maxAcceptableDeviation = 30; // pixels
-      const accuracy = Math.max(
-        0,
-        100 - (averageDeviation / maxAcceptableDeviation) * 100
+  useEffect(() => {
+    if (canvasSize < requestedCanvasSize) {
+      console.warn(
+        `Tracing shape shrunk to ${pxToMm(shapeSize, pxPerMm).toFixed(
+          1
+        )}mm to fit the screen`
       );
+    }
+  }, [canvasSize, requestedCanvasSize, shapeSize, pxPerMm]);
 
-      return Math.round(accuracy);
+  const shapePath =
+    path ?? (shape === "custom" ? "" : TRACING_SHAPES[shape].path);
+  const shapeTitle =
+    title ??
+    (shape === "custom" ? "Custom Shape" : TRACING_SHAPES[shape].title);
+
+  // Measuring the path needs the DOM, so it is sampled lazily on the client
+  const idealShapeRef = useRef<{ key: string; shape: SampledShape } | null>(
+    null
+  );
+  const getIdealShape = useCallback(() => {
+    const key = `${shapeSize} ${shapePath}`;
+    if (idealShapeRef.current?.key !== key) {
+      idealShapeRef.current = {
+        key,
+        shape: sampleShapePath(shapePath, {
+          centerX,
+          centerY,
+          size: shapeSize,
+        }),
+      };
+    }
+    return idealShapeRef.current.shape;
+  }, [shapePath, shapeSize, centerX, centerY]);
+
+  const toTracePoint = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>, rect: DOMRect): TracePoint => {
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      return {
+        x,
+        y,
+        xMm: pxToMm(x, pxPerMm),
+        yMm: pxToMm(y, pxPerMm),
+        timestamp: Date.now(),
+        contact: readPointerContact(e),
+      };
     },
-    []
+    [pxPerMm]
   );
 
   const calculateTotalDistance = useCallback((points: TracePoint[]): number => {
     let total = 0;
     for (let i = 1; i < points.length; i++) {
+      if (points[i].strokeStart) continue;
       const dx = points[i].x - points[i - 1].x;
       const dy = points[i].y - points[i - 1].y;
       total += Math.sqrt(dx * dx + dy * dy);
@@ -180,39 +152,28 @@ export function ShapeTracingTest({
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
+    // Draw in CSS px onto the device-resolution backing store
+    ctx.setTransform(screen.pixelRatio, 0, 0, screen.pixelRatio, 0, 0);
+
     // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.clearRect(0, 0, canvasSize, canvasSize);
 
     // Draw background
     ctx.fillStyle = "#f8fafc";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillRect(0, 0, canvasSize, canvasSize);
 
     // Draw shape outline
+    const ideal = getIdealShape();
     ctx.strokeStyle = "#3b82f6";
     ctx.lineWidth = 3;
     ctx.setLineDash([10, 5]);
-    ctx.beginPath();
-
-    if (shape === "square") {
-      const halfSize = shapeSize / 2;
-      ctx.rect(centerX - halfSize, centerY - halfSize, shapeSize, shapeSize);
-    } else if (shape === "diamond") {
-      const halfSize = shapeSize / 2;
-      ctx.moveTo(centerX, centerY - halfSize); // Top
-      ctx.lineTo(centerX + halfSize, centerY); // Right
-      ctx.lineTo(centerX, centerY + halfSize); // Bottom
-      ctx.lineTo(centerX - halfSize, centerY); // Left
-      ctx.closePath();
-    }
-
-    ctx.stroke();
+    ctx.stroke(new Path2D(ideal.path));
     ctx.setLineDash([]);
 
     // Draw start point indicator
+    const { x: startX, y: startY } = ideal.points[0];
     ctx.fillStyle = "#10b981";
     ctx.beginPath();
-    const startX = shape === "square" ? centerX - shapeSize / 2 : centerX;
-    const startY = shape === "square" ? centerY - shapeSize / 2 : centerY - shapeSize / 2;
     ctx.arc(startX, startY, 8, 0, 2 * Math.PI);
     ctx.fill();
 
@@ -222,18 +183,18 @@ export function ShapeTracingTest({
     ctx.textAlign = "center";
     ctx.fillText("START", startX, startY - 15);
 
-    // Draw user's trace
-    if (currentPath.current.length > 1) {
-      ctx.strokeStyle = "#ef4444";
-      ctx.lineWidth = 3;
-      ctx.beginPath();
-      ctx.moveTo(currentPath.current[0].x, currentPath.current[0].y);
-      for (let i = 1; i < currentPath.current.length; i++) {
-        ctx.lineTo(currentPath.current[i].x, currentPath.current[i].y);
+    // Draw user's trace, one stroke per touch
+    ctx.strokeStyle = "#ef4444";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    for (const stroke of splitStrokes(currentPath.current)) {
+      ctx.moveTo(stroke[0].x, stroke[0].y);
+      for (let i = 1; i < stroke.length; i++) {
+        ctx.lineTo(stroke[i].x, stroke[i].y);
       }
-      ctx.stroke();
     }
-  }, [shape, shapeSize, centerX, centerY]);
+    ctx.stroke();
+  }, [getIdealShape, screen.pixelRatio, canvasSize]);
 
   const startTest = useCallback(() => {
     setHasStarted(true);
@@ -242,14 +203,11 @@ export function ShapeTracingTest({
     setTracePoints([]);
     currentPath.current = [];
 
+    let remaining = testDuration;
     intervalRef.current = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1000) {
-          finishTest();
-          return 0;
-        }
-        return prev - 1000;
-      });
+      remaining -= 1000;
+      setTimeRemaining(Math.max(0, remaining));
+      if (remaining <= 0) finishTestRef.current();
     }, 1000);
   }, [testDuration]);
 
@@ -280,71 +238,68 @@ export function ShapeTracingTest({
     }
 
     const completionTime = Date.now() - startTime;
-    const idealPoints = generateIdealShapePoints(shape);
-    const accuracy = calculateAccuracy(currentPath.current, idealPoints);
-    const totalDistance = calculateTotalDistance(currentPath.current);
-    const deviationScore = accuracy;
+    const ideal = getIdealShape();
 
     const result: ShapeTracingResult = {
       shape,
-      accuracy,
+      path: ideal.path,
+      canvasSize,
+      shapeSizeMm: pxToMm(shapeSize, pxPerMm),
+      pxPerMm,
+      ...scoreTrace(currentPath.current, ideal.points, pxPerMm),
       completionTime,
       tracePoints: [...currentPath.current],
-      totalDistance,
-      deviationScore,
+      totalDistance: calculateTotalDistance(currentPath.current),
     };
 
     onComplete(result);
   }, [
     startTime,
     shape,
-    generateIdealShapePoints,
-    calculateAccuracy,
+    getIdealShape,
+    canvasSize,
+    shapeSize,
+    pxPerMm,
     calculateTotalDistance,
     onComplete,
   ]);
+  finishTestRef.current = finishTest;
 
-  const handleTouchStart = useCallback(
-    (e: React.TouchEvent | React.MouseEvent) => {
-      if (!hasStarted) return;
+  // Pointer Events cover finger, pen and mouse; only the primary contact
+  // draws the trace
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!hasStarted || !e.isPrimary) return;
 
       e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
       setIsTracing(true);
 
       const canvas = canvasRef.current;
       if (!canvas) return;
 
-      const rect = canvas.getBoundingClientRect();
-      const touch = "touches" in e ? e.touches[0] : e;
-      const point: TracePoint = {
-        x: touch.clientX - rect.left,
-        y: touch.clientY - rect.top,
-        timestamp: Date.now(),
+      // Earlier strokes are kept; the flag marks where the finger came back
+      const point = {
+        ...toTracePoint(e, canvas.getBoundingClientRect()),
+        strokeStart: true,
       };
-
-      currentPath.current = [point];
-      setTracePoints([point]);
+      currentPath.current = [...currentPath.current, point];
+      setTracePoints([...currentPath.current]);
     },
-    [hasStarted]
+    [hasStarted, toTracePoint]
   );
 
-  const handleTouchMove = useCallback(
-    (e: React.TouchEvent | React.MouseEvent) => {
-      if (!isTracing || !hasStarted) return;
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!isTracing || !hasStarted || !e.isPrimary) return;
 
       e.preventDefault();
       const canvas = canvasRef.current;
       if (!canvas) return;
 
-      const rect = canvas.getBoundingClientRect();
-      const touch = "touches" in e ? e.touches[0] : e;
-      const point: TracePoint = {
-        x: touch.clientX - rect.left,
-        y: touch.clientY - rect.top,
-        timestamp: Date.now(),
-      };
-
-      currentPath.current.push(point);
+      currentPath.current.push(
+        toTracePoint(e, canvas.getBoundingClientRect())
+      );
       setTracePoints([...currentPath.current]);
 
       // Always redraw to show both template and user trace
@@ -352,12 +307,12 @@ export function ShapeTracingTest({
         drawShape();
       });
     },
-    [isTracing, hasStarted, drawShape]
+    [isTracing, hasStarted, toTracePoint, drawShape]
   );
 
-  const handleTouchEnd = useCallback(
-    (e: React.TouchEvent | React.MouseEvent) => {
-      if (!isTracing) return;
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!isTracing || !e.isPrimary) return;
       e.preventDefault();
       setIsTracing(false);
     },
@@ -391,7 +346,7 @@ export function ShapeTracingTest({
       <div className="flex flex-col items-center justify-center min-h-screen p-4 space-y-4 bg-gray-50">
         <div className="text-center space-y-3">
           <h2 className="text-xl font-bold text-gray-900">
-            Trace the {shape === "square" ? "Square" : "Diamond"}
+            Trace the {shapeTitle}
           </h2>
           <p className="text-gray-600 text-sm max-w-sm">
             Starting from the green dot, trace the shape with your finger as
@@ -400,9 +355,10 @@ export function ShapeTracingTest({
           <div className="bg-white rounded-lg p-3 shadow-sm">
             <canvas
               ref={canvasRef}
-              width={350}
-              height={350}
+              width={Math.round(canvasSize * screen.pixelRatio)}
+              height={Math.round(canvasSize * screen.pixelRatio)}
               className="border border-gray-200 rounded"
+              style={{ width: canvasSize, height: canvasSize }}
             />
           </div>
           <div className="text-center">
@@ -424,7 +380,7 @@ export function ShapeTracingTest({
       <div className="bg-white/90 backdrop-blur-sm p-2 border-b">
         <div className="flex justify-between items-center text-sm">
           <span className="font-medium text-gray-900">
-            Trace the {shape === "square" ? "Square" : "Diamond"}
+            Trace the {shapeTitle}
           </span>
           <span className="text-gray-600">
             {Math.ceil(timeRemaining / 1000)}s
@@ -447,16 +403,18 @@ export function ShapeTracingTest({
         <div className="bg-white rounded-lg p-4 shadow-lg">
           <canvas
             ref={canvasRef}
-            width={350}
-            height={350}
+            width={Math.round(canvasSize * screen.pixelRatio)}
+            height={Math.round(canvasSize * screen.pixelRatio)}
             className="border border-gray-200 rounded cursor-pointer"
-            onTouchStart={handleTouchStart}
-            onTouchMove={handleTouchMove}
-            onTouchEnd={handleTouchEnd}
-            onMouseDown={handleTouchStart}
-            onMouseMove={handleTouchMove}
-            onMouseUp={handleTouchEnd}
-            style={{ touchAction: "none" }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            style={{
+              width: canvasSize,
+              height: canvasSize,
+              touchAction: "none",
+            }}
           />
         </div>
 
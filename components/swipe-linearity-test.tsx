@@ -0,0 +1,356 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Play, CheckCircle, XCircle, MoveRight } from "lucide-react";
+import {
+  SwipeLineResult,
+  SwipeLinearityResult,
+  TracePoint,
+} from "@/lib/test-results";
+import { readPointerContact } from "@/lib/pointer-contact";
+import { useScreenCalibration } from "@/lib/use-screen-calibration";
+import {
+  SWIPE_DIRECTIONS,
+  SwipeLine,
+  analyzeSwipe,
+  createSwipeLine,
+} from "@/lib/swipe-linearity";
+
+interface SwipeLinearityTestProps {
+  onTestComplete: (result: SwipeLinearityResult) => void;
+  showFloatingControls?: boolean;
+  /** Time allowed per line, in ms. */
+  swipeTimeout?: number;
+}
+
+// A swipe covering less of its line than this is asked for again
+const MIN_COVERAGE = 50;
+
+const directionTitles = {
+  horizontal: "Horizontal",
+  vertical: "Vertical",
+  diagonal: "Diagonal",
+};
+
+// Every hardware sample behind a pointermove, not just one per frame,
+// stamped in epoch ms from the event's own high-resolution timestamp
+function readSamples(e: React.PointerEvent, rect: DOMRect): TracePoint[] {
+  const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+  const events = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+
+  return events.map((event) => ({
+    x: event.clientX - rect.left,
+    y: event.clientY - rect.top,
+    timestamp: performance.timeOrigin + event.timeStamp,
+    contact: readPointerContact(event),
+  }));
+}
+
+export function SwipeLinearityTest({
+  onTestComplete,
+  showFloatingControls = false,
+  swipeTimeout = 10000,
+}: SwipeLinearityTestProps) {
+  const [testState, setTestState] = useState<
+    "ready" | "testing" | "completed"
+  >("ready");
+  const [lineIndex, setLineIndex] = useState(0);
+  const [line, setLine] = useState<SwipeLine | null>(null);
+  const [trace, setTrace] = useState<TracePoint[]>([]);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState(swipeTimeout);
+  const [result, setResult] = useState<SwipeLinearityResult | null>(null);
+
+  const areaRef = useRef<HTMLDivElement>(null);
+  const pointsRef = useRef<TracePoint[]>([]);
+  const pointerIdRef = useRef<number | null>(null);
+  const swipeStartRef = useRef<number>(0);
+  const lineStartRef = useRef<number>(0);
+  const swipesRef = useRef<SwipeLineResult[]>([]);
+  // Best swipe so far, recorded if no swipe covers enough of the line
+  const bestSwipeRef = useRef<SwipeLineResult | null>(null);
+
+  const { pxPerMm } = useScreenCalibration();
+  // Fixed at start so every swipe of a run uses one calibration
+  const pxPerMmRef = useRef(pxPerMm);
+
+  const showLine = useCallback((index: number) => {
+    setLine(
+      createSwipeLine(SWIPE_DIRECTIONS[index], {
+        width: window.innerWidth,
+        height: window.innerHeight,
+      })
+    );
+    setLineIndex(index);
+    setTrace([]);
+    setFeedback(null);
+    pointsRef.current = [];
+    pointerIdRef.current = null;
+    bestSwipeRef.current = null;
+    lineStartRef.current = Date.now();
+  }, []);
+
+  const handleStartTest = useCallback(() => {
+    swipesRef.current = [];
+    pxPerMmRef.current = pxPerMm;
+    setResult(null);
+    setTimeRemaining(swipeTimeout);
+    showLine(0);
+    setTestState("testing");
+  }, [swipeTimeout, pxPerMm, showLine]);
+
+  const recordSwipe = useCallback(
+    (swipe: SwipeLineResult) => {
+      swipesRef.current = [...swipesRef.current, swipe];
+
+      if (swipesRef.current.length < SWIPE_DIRECTIONS.length) {
+        setTimeRemaining(swipeTimeout);
+        showLine(swipesRef.current.length);
+        return;
+      }
+
+      const swipes = swipesRef.current;
+      const linearityResult: SwipeLinearityResult = {
+        swipes,
+        overallScore: Math.round(
+          swipes.reduce((sum, swipe) => sum + swipe.accuracy, 0) /
+            swipes.length
+        ),
+        pxPerMm: pxPerMmRef.current,
+      };
+
+      setResult(linearityResult);
+      setTestState("completed");
+      onTestComplete(linearityResult);
+    },
+    [swipeTimeout, showLine, onTestComplete]
+  );
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (testState !== "testing" || pointerIdRef.current !== null) return;
+      const rect = areaRef.current?.getBoundingClientRect();
+      if (!rect) return;
+
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pointerIdRef.current = e.pointerId;
+      swipeStartRef.current = Date.now();
+      pointsRef.current = readSamples(e, rect);
+      setTrace(pointsRef.current);
+    },
+    [testState]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (pointerIdRef.current !== e.pointerId) return;
+      const rect = areaRef.current?.getBoundingClientRect();
+      if (!rect) return;
+
+      e.preventDefault();
+      pointsRef.current = [...pointsRef.current, ...readSamples(e, rect)];
+      setTrace(pointsRef.current);
+    },
+    []
+  );
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (pointerIdRef.current !== e.pointerId || !line) return;
+
+      e.preventDefault();
+      pointerIdRef.current = null;
+      const swipe = analyzeSwipe(
+        line,
+        pointsRef.current,
+        Date.now() - swipeStartRef.current,
+        pxPerMmRef.current
+      );
+
+      if (swipe.coverage >= MIN_COVERAGE) {
+        recordSwipe(swipe);
+        return;
+      }
+
+      if (
+        !bestSwipeRef.current ||
+        swipe.accuracy > bestSwipeRef.current.accuracy
+      ) {
+        bestSwipeRef.current = swipe;
+      }
+      setFeedback("Swipe the whole line, from the green dot to the end");
+    },
+    [line, recordSwipe]
+  );
+
+  // Per-line time limit
+  useEffect(() => {
+    if (testState !== "testing" || !line) return;
+
+    const timer = setInterval(() => {
+      const remaining = swipeTimeout - (Date.now() - lineStartRef.current);
+      setTimeRemaining(Math.max(0, remaining));
+      if (remaining <= 0) {
+        clearInterval(timer);
+        recordSwipe(bestSwipeRef.current ?? analyzeSwipe(line, [], 0, pxPerMmRef.current));
+      }
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [testState, line, swipeTimeout, recordSwipe]);
+
+  if (testState === "completed" && result) {
+    const passed = result.swipes.every(
+      (swipe) => swipe.coverage >= MIN_COVERAGE
+    );
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          {passed ? (
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="w-16 h-16 text-red-600 mx-auto" />
+          )}
+          <h2
+            className={`text-2xl font-bold ${
+              passed ? "text-green-900" : "text-red-900"
+            }`}
+          >
+            Swipe Linearity {result.overallScore}%
+          </h2>
+          <div className="space-y-1 text-sm text-gray-600">
+            {result.swipes.map((swipe) => (
+              <p key={swipe.direction}>
+                {directionTitles[swipe.direction]}: max deviation{" "}
+                {swipe.maxDeviationMm.toFixed(1)}mm,{" "}
+                {swipe.reportRate.toFixed(0)}Hz
+              </p>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (testState === "testing" && line) {
+    return (
+      <div
+        ref={areaRef}
+        className="fixed inset-0 z-[60] touch-none select-none bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <svg className="pointer-events-none absolute inset-0 w-full h-full">
+          <line
+            x1={line.start.x}
+            y1={line.start.y}
+            x2={line.end.x}
+            y2={line.end.y}
+            stroke="#3b82f6"
+            strokeWidth={3}
+            strokeDasharray="10 5"
+          />
+          <circle cx={line.start.x} cy={line.start.y} r={10} fill="#10b981" />
+          {trace.length > 1 && (
+            <polyline
+              points={trace.map(({ x, y }) => `${x},${y}`).join(" ")}
+              fill="none"
+              stroke="#ef4444"
+              strokeWidth={3}
+            />
+          )}
+        </svg>
+
+        {/* Prompt - does not intercept touches */}
+        <div className="pointer-events-none absolute inset-x-0 top-4 text-center space-y-1 px-6">
+          <p className="text-sm text-gray-500">
+            {directionTitles[line.direction]} ({lineIndex + 1}/
+            {SWIPE_DIRECTIONS.length}) · {Math.ceil(timeRemaining / 1000)}s
+          </p>
+          {feedback && <p className="text-sm text-orange-600">{feedback}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  // Ready state
+  return (
+    <div className="min-h-screen bg-gray-50 relative">
+      <div className="p-6">
+        <div className="max-w-2xl mx-auto text-center space-y-6">
+          <div className="space-y-4">
+            <MoveRight className="w-16 h-16 text-blue-600 mx-auto" />
+            <h1 className="text-3xl font-bold text-gray-900">
+              Swipe Linearity Test
+            </h1>
+            <p className="text-lg text-gray-600">
+              Swipe along horizontal, vertical and diagonal guide lines across
+              the full screen. Each swipe is measured for straightness, speed
+              and gaps in the touch report stream.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Test Instructions
+            </h2>
+            <div className="space-y-4 text-left">
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  1
+                </div>
+                <div>
+                  <h3 className="font-medium">Start at the Green Dot</h3>
+                  <p className="text-sm text-gray-600">
+                    Place one finger on the green dot at the start of the line
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  2
+                </div>
+                <div>
+                  <h3 className="font-medium">Swipe to the End</h3>
+                  <p className="text-sm text-gray-600">
+                    Follow the dashed line in one steady stroke. Each line
+                    allows {swipeTimeout / 1000} seconds
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Floating Start Button */}
+      {showFloatingControls ? (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-sm px-6 py-2 shadow-lg"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      ) : (
+        <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-lg px-8 py-3 shadow-lg"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { TapAccuracyResult } from "@/lib/test-results";
+
+interface TapAccuracyPlotProps {
+  result: TapAccuracyResult;
+}
+
+// Offsets are a few px on a screen hundreds of px wide, so they are drawn
+// scaled up to stay visible
+const OFFSET_SCALE = 5;
+
+export function TapAccuracyPlot({ result }: TapAccuracyPlotProps) {
+  const { width, height } = result.viewport;
+  const markerSize = Math.min(width, height) / 40;
+
+  return (
+    <div className="space-y-3">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="mx-auto max-w-xs w-full border border-gray-200 bg-white"
+      >
+        {result.attempts.map(({ target, offsetX, offsetY, errorMm, touch }) => (
+          <g key={target.index}>
+            <title>
+              {touch
+                ? `Target ${target.index + 1}: ${errorMm.toFixed(2)}mm off`
+                : `Target ${target.index + 1}: missed`}
+            </title>
+            <line
+              x1={target.x - markerSize}
+              y1={target.y}
+              x2={target.x + markerSize}
+              y2={target.y}
+              stroke={touch ? "rgb(107, 114, 128)" : "rgb(220, 38, 38)"}
+              strokeWidth={markerSize / 4}
+            />
+            <line
+              x1={target.x}
+              y1={target.y - markerSize}
+              x2={target.x}
+              y2={target.y + markerSize}
+              stroke={touch ? "rgb(107, 114, 128)" : "rgb(220, 38, 38)"}
+              strokeWidth={markerSize / 4}
+            />
+            {touch && (
+              <>
+                <line
+                  x1={target.x}
+                  y1={target.y}
+                  x2={target.x + offsetX * OFFSET_SCALE}
+                  y2={target.y + offsetY * OFFSET_SCALE}
+                  stroke="rgb(37, 99, 235)"
+                  strokeWidth={markerSize / 4}
+                />
+                <circle
+                  cx={target.x + offsetX * OFFSET_SCALE}
+                  cy={target.y + offsetY * OFFSET_SCALE}
+                  r={markerSize / 2}
+                  fill="rgb(37, 99, 235)"
+                />
+              </>
+            )}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex items-center justify-center space-x-4 text-xs text-gray-600">
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 bg-blue-600" />
+          <span>Offset ×{OFFSET_SCALE}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="inline-block w-3 h-3 bg-red-600" />
+          <span>Missed ({result.missed})</span>
+        </span>
+        <span>
+          Bias {result.bias.xMm.toFixed(2)}, {result.bias.yMm.toFixed(2)}mm
+        </span>
+      </div>
+    </div>
+  );
+}
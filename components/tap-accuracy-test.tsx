@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Play, CheckCircle, XCircle, Crosshair } from "lucide-react";
+import {
+  TapAccuracyResult,
+  TapAttempt,
+  TapTarget,
+  TouchPoint,
+} from "@/lib/test-results";
+import { useTouchCapture } from "@/lib/use-touch-capture";
+import { useRos } from "@/lib/use-ros";
+import { useScreenCalibration } from "@/lib/use-screen-calibration";
+import { adaptTypeName } from "@/lib/ros-dialect";
+import { STRING_MESSAGE_TYPE } from "@/lib/orchestration";
+import {
+  TAP_TARGET_TOPIC,
+  createTapAttempt,
+  createTapTargetMessage,
+  createTapTargets,
+  summarizeTapAccuracy,
+} from "@/lib/tap-accuracy";
+
+interface TapAccuracyTestProps {
+  onTestComplete: (result: TapAccuracyResult) => void;
+  showFloatingControls?: boolean;
+  targetCount?: number;
+  /** Time allowed per target before it is recorded as missed, in ms. */
+  targetTimeout?: number;
+}
+
+export function TapAccuracyTest({
+  onTestComplete,
+  showFloatingControls = false,
+  targetCount = 9,
+  targetTimeout = 5000,
+}: TapAccuracyTestProps) {
+  const [testState, setTestState] = useState<
+    "ready" | "testing" | "completed"
+  >("ready");
+  const [targets, setTargets] = useState<TapTarget[]>([]);
+  const [targetIndex, setTargetIndex] = useState(0);
+  const [result, setResult] = useState<TapAccuracyResult | null>(null);
+
+  const areaRef = useRef<HTMLDivElement>(null);
+  const attemptsRef = useRef<TapAttempt[]>([]);
+  const viewportRef = useRef({ width: 0, height: 0 });
+  const startTimeRef = useRef<number>(0);
+
+  const { isConnected, publishMessage, rosVersion } = useRos();
+  const { pxPerMm } = useScreenCalibration();
+  // Fixed at start so every target and tap of a run uses one calibration
+  const pxPerMmRef = useRef(pxPerMm);
+
+  const finishTest = useCallback(() => {
+    const tapResult = summarizeTapAccuracy(
+      attemptsRef.current,
+      viewportRef.current,
+      Date.now() - startTimeRef.current,
+      pxPerMmRef.current
+    );
+
+    setResult(tapResult);
+    setTestState("completed");
+    onTestComplete(tapResult);
+  }, [onTestComplete]);
+
+  // Record the outcome for the current target and move to the next one
+  const recordAttempt = useCallback(
+    (touch: TapAttempt["touch"]) => {
+      const target = targets[targetIndex];
+      if (!target || attemptsRef.current.length > targetIndex) return;
+
+      attemptsRef.current = [
+        ...attemptsRef.current,
+        createTapAttempt(target, touch, pxPerMmRef.current),
+      ];
+
+      if (targetIndex + 1 >= targets.length) {
+        finishTest();
+      } else {
+        setTargetIndex(targetIndex + 1);
+      }
+    },
+    [targets, targetIndex, finishTest]
+  );
+
+  const handleTouchDown = useCallback(
+    (touch: TouchPoint) => {
+      recordAttempt({ x: touch.x, y: touch.y, timestamp: touch.timestamp });
+    },
+    [recordAttempt]
+  );
+
+  const { pointerHandlers, reset } = useTouchCapture({
+    areaRef,
+    enabled: testState === "testing",
+    onTouchDown: handleTouchDown,
+  });
+
+  const handleStartTest = useCallback(() => {
+    const viewport = { width: window.innerWidth, height: window.innerHeight };
+    viewportRef.current = viewport;
+    pxPerMmRef.current = pxPerMm;
+    attemptsRef.current = [];
+    startTimeRef.current = Date.now();
+    reset();
+    setTargets(createTapTargets(targetCount, viewport, pxPerMm));
+    setTargetIndex(0);
+    setResult(null);
+    setTestState("testing");
+  }, [targetCount, pxPerMm, reset]);
+
+  // Tell the robot where the current target is
+  useEffect(() => {
+    if (testState !== "testing" || !isConnected) return;
+    const target = targets[targetIndex];
+    if (!target) return;
+
+    publishMessage(
+      TAP_TARGET_TOPIC,
+      adaptTypeName(STRING_MESSAGE_TYPE, rosVersion),
+      createTapTargetMessage(target, targets.length, viewportRef.current)
+    );
+  }, [
+    testState,
+    isConnected,
+    targets,
+    targetIndex,
+    publishMessage,
+    rosVersion,
+  ]);
+
+  // Per-target timeout
+  useEffect(() => {
+    if (testState !== "testing") return;
+
+    const timer = setTimeout(() => recordAttempt(null), targetTimeout);
+    return () => clearTimeout(timer);
+  }, [testState, targetIndex, targetTimeout, recordAttempt]);
+
+  if (testState === "completed" && result) {
+    const passed = result.missed === 0;
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          {passed ? (
+            <CheckCircle className="w-16 h-16 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="w-16 h-16 text-red-600 mx-auto" />
+          )}
+          <h2
+            className={`text-2xl font-bold ${
+              passed ? "text-green-900" : "text-red-900"
+            }`}
+          >
+            Mean Error {result.meanErrorMm.toFixed(2)}mm
+          </h2>
+          <p className="text-gray-600">
+            {result.hits} of {result.attempts.length} targets registered a tap.
+            Bias: {result.bias.xMm.toFixed(2)}mm, {result.bias.yMm.toFixed(2)}
+            mm
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (testState === "testing") {
+    const target = targets[targetIndex];
+
+    return (
+      <div
+        ref={areaRef}
+        className="fixed inset-0 z-[60] touch-none select-none bg-white"
+        {...pointerHandlers}
+      >
+        {target && (
+          <div
+            className="pointer-events-none absolute"
+            style={{ left: target.x, top: target.y }}
+          >
+            <div className="absolute -left-6 -top-6 w-12 h-12 rounded-full border-2 border-red-500" />
+            <div className="absolute -left-3 top-0 w-6 h-px bg-red-500" />
+            <div className="absolute left-0 -top-3 w-px h-6 bg-red-500" />
+          </div>
+        )}
+
+        {/* Progress - does not intercept touches */}
+        <div className="pointer-events-none fixed top-4 left-1/2 -translate-x-1/2 bg-black/60 text-white px-4 py-2 rounded-full text-sm font-mono">
+          {targetIndex + 1}/{targets.length}
+        </div>
+      </div>
+    );
+  }
+
+  // Ready state
+  return (
+    <div className="min-h-screen bg-gray-50 relative">
+      <div className="p-6">
+        <div className="max-w-2xl mx-auto text-center space-y-6">
+          <div className="space-y-4">
+            <Crosshair className="w-16 h-16 text-blue-600 mx-auto" />
+            <h1 className="text-3xl font-bold text-gray-900">
+              Tap Accuracy Test
+            </h1>
+            <p className="text-lg text-gray-600">
+              {targetCount} targets appear one at a time at known screen
+              positions. Each position is published over ROS so the robot can
+              tap it, and the offset to the registered touch is measured.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Test Instructions
+            </h2>
+            <div className="space-y-4 text-left">
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  1
+                </div>
+                <div>
+                  <h3 className="font-medium">Tap the Crosshair</h3>
+                  <p className="text-sm text-gray-600">
+                    Tap the centre of each red crosshair as precisely as
+                    possible
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-start space-x-3">
+                <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center text-white text-sm font-bold">
+                  2
+                </div>
+                <div>
+                  <h3 className="font-medium">Next Target</h3>
+                  <p className="text-sm text-gray-600">
+                    The next target appears after a tap, or after{" "}
+                    {targetTimeout / 1000} seconds without one
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Floating Start Button */}
+      {showFloatingControls ? (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-sm px-6 py-2 shadow-lg"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      ) : (
+        <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2">
+          <Button
+            onClick={handleStartTest}
+            className="bg-blue-600 hover:bg-blue-700 text-lg px-8 py-3 shadow-lg"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            Start Test
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,834 @@
+import { EnhancedTouchscreenTest } from "./enhanced-touchscreen-test";
+import { DisplayDefectTest } from "./display-defect-test";
+import { ProximitySensorTest } from "./proximity-sensor-test";
+import { GridCoverageTest } from "./grid-coverage-test";
+import { GridCoverageHeatmap } from "./grid-coverage-heatmap";
+import { TapAccuracyTest } from "./tap-accuracy-test";
+import { TapAccuracyPlot } from "./tap-accuracy-plot";
+import { GestureTest } from "./gesture-test";
+import { GhostTouchTest } from "./ghost-touch-test";
+import { SwipeLinearityTest } from "./swipe-linearity-test";
+import { CurveTracingTest } from "./curve-tracing-test";
+import { CurveTracingReplay, TouchscreenReplay } from "./trace-replay";
+import {
+  curveTracingToDiagnosticStatus,
+  displayDefectToDiagnosticStatus,
+  gestureTestToDiagnosticStatus,
+  ghostTouchToDiagnosticStatus,
+  gridCoverageToDiagnosticStatus,
+  proximitySensorToDiagnosticStatus,
+  swipeLinearityToDiagnosticStatus,
+  tapAccuracyToDiagnosticStatus,
+  touchscreenToDiagnosticStatus,
+} from "@/lib/diagnostics";
+import {
+  AnyTestPlugin,
+  TestMetric,
+  TestThresholds,
+  defineTestPlugin,
+  isRecord,
+} from "@/lib/test-plugin";
+import { createDefaultTestPlan, resolveTestPlan } from "@/lib/test-plans";
+import { touchResponseTime } from "@/lib/touch-latency";
+import {
+  gesturePassed,
+  swipePassed,
+  tapBiasMm,
+  tracingPassed,
+} from "@/lib/test-checks";
+import { GESTURES } from "@/lib/gestures";
+import { tracingTitle } from "@/lib/tracing-shapes";
+import { DEFAULT_DISPLAY_PATTERNS } from "@/lib/display-patterns";
+import {
+  CurveTracingResult,
+  DisplayDefectResult,
+  DisplayPatternResult,
+  EnhancedTouchTestResult,
+  ForceDistribution,
+  GestureResult,
+  GestureTestResult,
+  GhostTouch,
+  GhostTouchResult,
+  GridCoverageResult,
+  LatencyStats,
+  TouchLatencyResult,
+  ProximitySensorResult,
+  ShapeTracingResult,
+  SwipeLinearityResult,
+  TapAccuracyResult,
+} from "@/lib/test-results";
+
+function metric(
+  name: string,
+  value: number,
+  threshold: number,
+  passed: boolean
+): TestMetric {
+  return { metric: name, value, threshold, status: passed ? "Good" : "Poor" };
+}
+
+function formatLatency({ p50, p95, max }: LatencyStats) {
+  return `p50 ${p50.toFixed(1)} / p95 ${p95.toFixed(1)} / max ${max.toFixed(
+    1
+  )}ms`;
+}
+
+function latencyDetails(latency: TouchLatencyResult | undefined) {
+  if (!latency) return [];
+
+  return [
+    { label: "Touch to Handler", value: formatLatency(latency.input) },
+    { label: "Touch to Frame", value: formatLatency(latency.frame) },
+    ...(latency.endToEnd
+      ? [{ label: "Robot to Touch", value: formatLatency(latency.endToEnd) }]
+      : []),
+  ];
+}
+
+function forceDetails(force: ForceDistribution | undefined) {
+  if (!force || force.samples === 0) return [];
+
+  return [
+    {
+      label: "Touch Pressure",
+      value: force.pressureReported
+        ? `p50 ${force.p50.toFixed(2)} / p95 ${force.p95.toFixed(
+            2
+          )} / max ${force.max.toFixed(2)}`
+        : "Not reported by this screen",
+    },
+    {
+      label: "Contact Size",
+      value: `${force.meanContactWidth.toFixed(
+        1
+      )}×${force.meanContactHeight.toFixed(1)}px`,
+    },
+    {
+      label: "Pointer Types",
+      value: Object.entries(force.pointerTypes)
+        .map(([type, samples]) => `${type} (${samples})`)
+        .join(", "),
+    },
+  ];
+}
+
+function formatTracing(tracing: ShapeTracingResult) {
+  return `${tracing.accuracy}% · ${tracing.coverage.toFixed(
+    0
+  )}% covered, max ${tracing.maxDeviationMm.toFixed(1)}mm off, start ${
+    tracing.startScore
+  }%, order ${tracing.directionScore}%${
+    tracing.reversed ? " (reversed)" : ""
+  }`;
+}
+
+export const touchscreenPlugin = defineTestPlugin<
+  EnhancedTouchTestResult,
+  { tracingDuration: number; shapeSizeMm: number }
+>({
+  id: "touchscreen",
+  title: "Touch Screen",
+  description: "Test touch responsiveness without scrolling",
+  resultKey: "touchscreen",
+  component: EnhancedTouchscreenTest,
+  defaultParams: { tracingDuration: 15000, shapeSizeMm: 48 },
+  defaultThresholds: {
+    maxResponseTimeMs: 100,
+    minTracingAccuracy: 70,
+    minTracingCoverage: 80,
+    maxTracingDeviationMm: 10,
+  },
+  isResult: (value): value is EnhancedTouchTestResult =>
+    isRecord(value) &&
+    isRecord(value.basicTouch) &&
+    isRecord(value.squareTracing) &&
+    isRecord(value.diamondTracing) &&
+    typeof value.overallScore === "number",
+  // Tracing is single-finger, so only latency and the traces are measured
+  score: (result, thresholds) => {
+    const passed = [
+      touchResponseTime(result.basicTouch) < thresholds.maxResponseTimeMs,
+      tracingPassed(result.squareTracing, thresholds),
+      tracingPassed(result.diamondTracing, thresholds),
+    ];
+    return Math.round((passed.filter(Boolean).length / passed.length) * 100);
+  },
+  checks: (result, thresholds) => [
+    {
+      name: "Response Time",
+      passed:
+        touchResponseTime(result.basicTouch) < thresholds.maxResponseTimeMs,
+    },
+    {
+      name: "Square Tracing",
+      passed: tracingPassed(result.squareTracing, thresholds),
+    },
+    {
+      name: "Diamond Tracing",
+      passed: tracingPassed(result.diamondTracing, thresholds),
+    },
+  ],
+  metrics: (result, thresholds) => [
+    metric(
+      "Response Time (p95)",
+      touchResponseTime(result.basicTouch),
+      thresholds.maxResponseTimeMs,
+      touchResponseTime(result.basicTouch) < thresholds.maxResponseTimeMs
+    ),
+    metric(
+      "Square Accuracy",
+      result.squareTracing.accuracy,
+      thresholds.minTracingAccuracy,
+      result.squareTracing.accuracy >= thresholds.minTracingAccuracy
+    ),
+    metric(
+      "Square Coverage",
+      result.squareTracing.coverage,
+      thresholds.minTracingCoverage,
+      result.squareTracing.coverage >= thresholds.minTracingCoverage
+    ),
+    metric(
+      "Diamond Accuracy",
+      result.diamondTracing.accuracy,
+      thresholds.minTracingAccuracy,
+      result.diamondTracing.accuracy >= thresholds.minTracingAccuracy
+    ),
+    metric(
+      "Diamond Coverage",
+      result.diamondTracing.coverage,
+      thresholds.minTracingCoverage,
+      result.diamondTracing.coverage >= thresholds.minTracingCoverage
+    ),
+  ],
+  details: (result) => [
+    {
+      label: "Average Response Time",
+      value: `${result.basicTouch.averageResponseTime.toFixed(2)}ms`,
+    },
+    ...latencyDetails(result.basicTouch.latency),
+    ...forceDetails(result.basicTouch.force),
+    {
+      label: "Total Touches",
+      value: String(result.basicTouch.totalTouches),
+    },
+    {
+      label: "Test Duration",
+      value: `${result.basicTouch.testDuration / 1000}s`,
+    },
+    {
+      label: "Square Tracing",
+      value: formatTracing(result.squareTracing),
+    },
+    {
+      label: "Diamond Tracing",
+      value: formatTracing(result.diamondTracing),
+    },
+    { label: "Overall Score", value: `${result.overallScore}%` },
+  ],
+  reportView: TouchscreenReplay,
+  toDiagnosticStatus: touchscreenToDiagnosticStatus,
+});
+
+export const curveTracingPlugin = defineTestPlugin<
+  CurveTracingResult,
+  { shapes: string[]; tracingDuration: number; shapeSizeMm: number }
+>({
+  id: "curve-tracing",
+  title: "Curve Tracing",
+  description: "Trace curves, zig-zags and custom SVG paths",
+  resultKey: "curveTracing",
+  component: CurveTracingTest,
+  defaultParams: {
+    shapes: ["circle", "spiral", "figure-eight", "zig-zag"],
+    tracingDuration: 15000,
+    shapeSizeMm: 48,
+  },
+  defaultThresholds: {
+    minTracingAccuracy: 70,
+    minTracingCoverage: 80,
+    maxTracingDeviationMm: 10,
+  },
+  isResult: (value): value is CurveTracingResult =>
+    isRecord(value) &&
+    Array.isArray(value.tracings) &&
+    typeof value.overallScore === "number",
+  score: (result) => result.overallScore,
+  checks: (result, thresholds) =>
+    result.tracings.map((tracing, index) => ({
+      name: `${tracingTitle(tracing.shape, index)} Tracing`,
+      passed: tracingPassed(tracing, thresholds),
+    })),
+  metrics: (result, thresholds) =>
+    result.tracings.flatMap((tracing, index) => [
+      metric(
+        `${tracingTitle(tracing.shape, index)} Accuracy`,
+        tracing.accuracy,
+        thresholds.minTracingAccuracy,
+        tracing.accuracy >= thresholds.minTracingAccuracy
+      ),
+      metric(
+        `${tracingTitle(tracing.shape, index)} Max Deviation (mm)`,
+        tracing.maxDeviationMm,
+        thresholds.maxTracingDeviationMm,
+        tracing.maxDeviationMm <= thresholds.maxTracingDeviationMm
+      ),
+    ]),
+  details: (result) => [
+    ...result.tracings.map((tracing, index) => ({
+      label: tracingTitle(tracing.shape, index),
+      value: formatTracing(tracing),
+    })),
+    { label: "Curve Tracing Score", value: `${result.overallScore}%` },
+  ],
+  reportView: CurveTracingReplay,
+  toDiagnosticStatus: curveTracingToDiagnosticStatus,
+});
+
+const swipeTitles = {
+  horizontal: "Horizontal Swipe",
+  vertical: "Vertical Swipe",
+  diagonal: "Diagonal Swipe",
+};
+
+export const swipeLinearityPlugin = defineTestPlugin<
+  SwipeLinearityResult,
+  { swipeTimeout: number }
+>({
+  id: "swipe-linearity",
+  title: "Swipe Linearity",
+  description: "Straight swipes along horizontal, vertical and diagonal lines",
+  resultKey: "swipeLinearity",
+  component: SwipeLinearityTest,
+  defaultParams: { swipeTimeout: 10000 },
+  defaultThresholds: {
+    maxDeviationMm: 3,
+    minReportRateHz: 60,
+    maxDroppedSamples: 2,
+  },
+  showFloatingControls: true,
+  isResult: (value): value is SwipeLinearityResult =>
+    isRecord(value) &&
+    Array.isArray(value.swipes) &&
+    typeof value.overallScore === "number",
+  score: (result) => result.overallScore,
+  checks: (result, thresholds) =>
+    result.swipes.map((swipe) => ({
+      name: swipeTitles[swipe.direction],
+      passed: swipePassed(swipe, thresholds),
+    })),
+  metrics: (result, thresholds) =>
+    result.swipes.flatMap((swipe) => [
+      metric(
+        `${swipeTitles[swipe.direction]} Deviation (mm)`,
+        swipe.maxDeviationMm,
+        thresholds.maxDeviationMm,
+        swipe.maxDeviationMm <= thresholds.maxDeviationMm
+      ),
+      metric(
+        `${swipeTitles[swipe.direction]} Rate (Hz)`,
+        swipe.reportRate,
+        thresholds.minReportRateHz,
+        swipe.reportRate >= thresholds.minReportRateHz
+      ),
+    ]),
+  details: (result) => [
+    ...result.swipes.map((swipe) => ({
+      label: swipeTitles[swipe.direction],
+      value: `${swipe.accuracy}% · max ${swipe.maxDeviationMm.toFixed(
+        1
+      )}mm off, ${swipe.coverage.toFixed(0)}% covered, ${swipe.reportRate.toFixed(
+        0
+      )}Hz, ${swipe.droppedSamples} gaps (max ${swipe.maxGap.toFixed(0)}ms)`,
+    })),
+    { label: "Linearity Score", value: `${result.overallScore}%` },
+  ],
+  toDiagnosticStatus: swipeLinearityToDiagnosticStatus,
+});
+
+function gestureTitle(gesture: GestureResult) {
+  return (
+    GESTURES.find((spec) => spec.gesture === gesture.gesture)?.title ??
+    gesture.gesture
+  );
+}
+
+export const gesturePlugin = defineTestPlugin<
+  GestureTestResult,
+  { gestureTimeout: number }
+>({
+  id: "gestures",
+  title: "Multi-touch Gestures",
+  description: "Pinch, rotate and multi-finger swipes with finger tracking",
+  resultKey: "gestures",
+  component: GestureTest,
+  defaultParams: { gestureTimeout: 10000 },
+  defaultThresholds: { minGestureScore: 70, minContinuity: 100 },
+  showFloatingControls: true,
+  isResult: (value): value is GestureTestResult =>
+    isRecord(value) &&
+    Array.isArray(value.gestures) &&
+    typeof value.overallScore === "number",
+  score: (result) => result.overallScore,
+  checks: (result, thresholds) =>
+    result.gestures.map((gesture) => ({
+      name: gestureTitle(gesture),
+      passed: gesturePassed(gesture, thresholds),
+    })),
+  metrics: (result, thresholds) =>
+    result.gestures.map((gesture) =>
+      metric(
+        gestureTitle(gesture),
+        gesture.score,
+        thresholds.minGestureScore,
+        gesturePassed(gesture, thresholds)
+      )
+    ),
+  details: (result) => [
+    {
+      label: "Max Simultaneous Touches",
+      value: String(result.maxSimultaneousTouches),
+    },
+    ...result.gestures.map((gesture) => ({
+      label: gestureTitle(gesture),
+      value: `${gesture.score}%${
+        gesture.completed ? "" : " (not completed)"
+      } · scale ${gesture.scale.toFixed(2)}, rotation ${gesture.rotation.toFixed(
+        0
+      )}°, ${gesture.continuity.toFixed(0)}% tracked`,
+    })),
+    { label: "Gesture Score", value: `${result.overallScore}%` },
+  ],
+  toDiagnosticStatus: gestureTestToDiagnosticStatus,
+});
+
+export const tapAccuracyPlugin = defineTestPlugin<
+  TapAccuracyResult,
+  { targetCount: number; targetTimeout: number }
+>({
+  id: "tap-accuracy",
+  title: "Tap Accuracy",
+  description: "Measure the offset between robot taps and known targets",
+  resultKey: "tapAccuracy",
+  component: TapAccuracyTest,
+  defaultParams: { targetCount: 9, targetTimeout: 5000 },
+  defaultThresholds: { maxMeanErrorMm: 2, maxBiasMm: 1 },
+  showFloatingControls: true,
+  isResult: (value): value is TapAccuracyResult =>
+    isRecord(value) &&
+    Array.isArray(value.attempts) &&
+    isRecord(value.bias) &&
+    typeof value.meanErrorMm === "number",
+  // Full marks within tolerance, losing ground as the error grows, scaled by
+  // the share of targets that registered a tap at all
+  score: (result, thresholds) => {
+    if (result.attempts.length === 0) return 0;
+    const excess = Math.max(
+      0,
+      result.meanErrorMm / thresholds.maxMeanErrorMm - 1
+    );
+    const accuracy = Math.max(0, 100 - excess * 50);
+    return Math.round((accuracy * result.hits) / result.attempts.length);
+  },
+  checks: (result, thresholds) => [
+    {
+      name: "Tap Accuracy",
+      passed:
+        result.missed === 0 &&
+        result.meanErrorMm <= thresholds.maxMeanErrorMm,
+    },
+    {
+      name: "Tap Bias",
+      passed: tapBiasMm(result) <= thresholds.maxBiasMm,
+    },
+  ],
+  metrics: (result, thresholds) => [
+    metric(
+      "Tap Mean Error (mm)",
+      result.meanErrorMm,
+      thresholds.maxMeanErrorMm,
+      result.meanErrorMm <= thresholds.maxMeanErrorMm
+    ),
+    metric(
+      "Tap Bias (mm)",
+      tapBiasMm(result),
+      thresholds.maxBiasMm,
+      tapBiasMm(result) <= thresholds.maxBiasMm
+    ),
+  ],
+  details: (result) => [
+    {
+      label: "Targets Hit",
+      value: `${result.hits}/${result.attempts.length}`,
+    },
+    {
+      label: "Mean Error",
+      value: `${result.meanErrorMm.toFixed(2)}mm (${result.meanError.toFixed(
+        1
+      )}px)`,
+    },
+    { label: "Max Error", value: `${result.maxErrorMm.toFixed(2)}mm` },
+    {
+      label: "Systematic Bias",
+      value: `x ${result.bias.xMm.toFixed(2)}mm, y ${result.bias.yMm.toFixed(
+        2
+      )}mm`,
+    },
+  ],
+  reportView: TapAccuracyPlot,
+  toDiagnosticStatus: tapAccuracyToDiagnosticStatus,
+});
+
+export const gridCoveragePlugin = defineTestPlugin<
+  GridCoverageResult,
+  { rows: number; columns: number; timeLimit: number }
+>({
+  id: "grid-coverage",
+  title: "Touch Coverage",
+  description: "Find dead zones by touching every cell of a full-screen grid",
+  resultKey: "gridCoverage",
+  component: GridCoverageTest,
+  defaultParams: { rows: 8, columns: 6, timeLimit: 30000 },
+  defaultThresholds: { minCoverage: 100 },
+  showFloatingControls: true,
+  isResult: (value): value is GridCoverageResult =>
+    isRecord(value) &&
+    Array.isArray(value.hitMap) &&
+    Array.isArray(value.deadCells) &&
+    typeof value.coverage === "number",
+  score: (result) => Math.round(result.coverage),
+  checks: (result, thresholds) => [
+    {
+      name: "Touch Coverage",
+      passed: result.coverage >= thresholds.minCoverage,
+    },
+  ],
+  metrics: (result, thresholds) => [
+    metric(
+      "Touch Coverage",
+      result.coverage,
+      thresholds.minCoverage,
+      result.coverage >= thresholds.minCoverage
+    ),
+  ],
+  details: (result) => [
+    { label: "Coverage Grid", value: `${result.columns}×${result.rows}` },
+    { label: "Coverage", value: `${result.coverage.toFixed(1)}%` },
+    {
+      label: "Dead Cells",
+      value:
+        result.deadCells.length === 0
+          ? "None"
+          : result.deadCells
+              .map(({ row, column }) => `R${row + 1}C${column + 1}`)
+              .join(", "),
+    },
+  ],
+  reportView: GridCoverageHeatmap,
+  toDiagnosticStatus: gridCoverageToDiagnosticStatus,
+});
+
+function ghostTouchCount(result: GhostTouchResult) {
+  return result.idleTouches.length + result.ghostTouches.length;
+}
+
+function formatGhostTouches(touches: GhostTouch[]) {
+  return touches.length === 0
+    ? "None"
+    : touches
+        .map(
+          ({ x, y, duration }) =>
+            `(${Math.round(x)}, ${Math.round(y)}) ${duration}ms`
+        )
+        .join(", ");
+}
+
+export const ghostTouchPlugin = defineTestPlugin<
+  GhostTouchResult,
+  { idleDuration: number; targetCount: number; targetTimeout: number }
+>({
+  id: "ghost-touch",
+  title: "Ghost Touch",
+  description: "Flag phantom touches while idle and around commanded taps",
+  resultKey: "ghostTouch",
+  component: GhostTouchTest,
+  defaultParams: { idleDuration: 10000, targetCount: 5, targetTimeout: 5000 },
+  defaultThresholds: { maxGhostTouches: 0 },
+  showFloatingControls: true,
+  isResult: (value): value is GhostTouchResult =>
+    isRecord(value) &&
+    Array.isArray(value.idleTouches) &&
+    Array.isArray(value.ghostTouches),
+  // Every phantom touch costs a fifth of the score
+  score: (result) => Math.max(0, 100 - ghostTouchCount(result) * 20),
+  checks: (result, thresholds) => [
+    {
+      name: "Ghost Touches",
+      passed: ghostTouchCount(result) <= thresholds.maxGhostTouches,
+    },
+  ],
+  metrics: (result, thresholds) => [
+    metric(
+      "Ghost Touches",
+      ghostTouchCount(result),
+      thresholds.maxGhostTouches,
+      ghostTouchCount(result) <= thresholds.maxGhostTouches
+    ),
+  ],
+  details: (result) => [
+    {
+      label: "Idle Touches",
+      value: formatGhostTouches(result.idleTouches),
+    },
+    {
+      label: "Off-target Touches",
+      value: formatGhostTouches(result.ghostTouches),
+    },
+    {
+      label: "Targets Hit",
+      value: `${result.targetsHit}/${result.targetCount}`,
+    },
+  ],
+  toDiagnosticStatus: ghostTouchToDiagnosticStatus,
+});
+
+// Full marks up to `max`, losing half for every further multiple of it
+function toleranceScore(value: number, max: number) {
+  return Math.max(0, 100 - Math.max(0, value / max - 1) * 50);
+}
+
+function displayFullyAnalyzed(result: DisplayDefectResult) {
+  return (
+    result.testCompleted &&
+    result.patterns.length > 0 &&
+    result.analyzedPatterns === result.patterns.length
+  );
+}
+
+function formatDisplayPattern(shown: DisplayPatternResult) {
+  const parts = [`${(shown.duration / 1000).toFixed(1)}s`];
+  if (shown.captured !== undefined) {
+    parts.push(shown.captured ? "captured" : "not captured");
+  }
+  if (!shown.analysis) return [...parts, "not analysed"].join(", ");
+
+  const { deadPixels, uniformityDeviation, deltaE } = shown.analysis;
+  parts.push(`${deadPixels.length} dead`);
+  if (uniformityDeviation !== undefined) {
+    parts.push(`uniformity ${uniformityDeviation.toFixed(1)}%`);
+  }
+  if (deltaE !== undefined) parts.push(`ΔE ${deltaE.toFixed(2)}`);
+  return parts.join(", ");
+}
+
+export const displayDefectPlugin = defineTestPlugin<
+  DisplayDefectResult,
+  {
+    patterns: string[];
+    colorDuration: number;
+    captureTimeout: number;
+    analysisTimeout: number;
+    fiducialDuration: number;
+  }
+>({
+  id: "display",
+  title: "Display Defect",
+  description: "Colour and test pattern analysis by robot camera",
+  resultKey: "displayDefect",
+  component: DisplayDefectTest,
+  defaultParams: {
+    patterns: DEFAULT_DISPLAY_PATTERNS,
+    colorDuration: 7000,
+    captureTimeout: 0,
+    analysisTimeout: 10000,
+    fiducialDuration: 0,
+  },
+  defaultThresholds: {
+    maxDeadPixels: 0,
+    maxUniformityDeviation: 10,
+    maxDeltaE: 3,
+  },
+  showFloatingControls: true,
+  awaitRobotConfirmation: true,
+  isResult: (value): value is DisplayDefectResult =>
+    isRecord(value) &&
+    typeof value.testCompleted === "boolean" &&
+    typeof value.duration === "number" &&
+    Array.isArray(value.patterns) &&
+    Array.isArray(value.deadPixels),
+  // Mean of the measured figures, each scored against its threshold, scaled
+  // by the share of patterns the robot analysed. Every dead pixel over the
+  // limit costs a fifth of the dead pixel score.
+  score: (result, thresholds) => {
+    if (!result.testCompleted || result.analyzedPatterns === 0) return 0;
+
+    const excessDeadPixels = Math.max(
+      0,
+      result.deadPixels.length - thresholds.maxDeadPixels
+    );
+    const scores = [Math.max(0, 100 - excessDeadPixels * 20)];
+    if (result.maxUniformityDeviation !== null) {
+      scores.push(
+        toleranceScore(
+          result.maxUniformityDeviation,
+          thresholds.maxUniformityDeviation
+        )
+      );
+    }
+    if (result.maxDeltaE !== null) {
+      scores.push(toleranceScore(result.maxDeltaE, thresholds.maxDeltaE));
+    }
+
+    const mean = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+    return Math.round(
+      (mean * result.analyzedPatterns) / result.patterns.length
+    );
+  },
+  checks: (result, thresholds) => [
+    { name: "Display Analysis", passed: displayFullyAnalyzed(result) },
+    {
+      name: "Dead Pixels",
+      passed: result.deadPixels.length <= thresholds.maxDeadPixels,
+    },
+    ...(result.maxUniformityDeviation !== null
+      ? [
+          {
+            name: "Display Uniformity",
+            passed:
+              result.maxUniformityDeviation <=
+              thresholds.maxUniformityDeviation,
+          },
+        ]
+      : []),
+    ...(result.maxDeltaE !== null
+      ? [
+          {
+            name: "Colour Accuracy",
+            passed: result.maxDeltaE <= thresholds.maxDeltaE,
+          },
+        ]
+      : []),
+  ],
+  metrics: (result, thresholds) => [
+    metric(
+      "Dead Pixels",
+      result.deadPixels.length,
+      thresholds.maxDeadPixels,
+      result.deadPixels.length <= thresholds.maxDeadPixels
+    ),
+    ...(result.maxUniformityDeviation !== null
+      ? [
+          metric(
+            "Uniformity Deviation (%)",
+            result.maxUniformityDeviation,
+            thresholds.maxUniformityDeviation,
+            result.maxUniformityDeviation <= thresholds.maxUniformityDeviation
+          ),
+        ]
+      : []),
+    ...(result.maxDeltaE !== null
+      ? [
+          metric(
+            "Colour Error (ΔE)",
+            result.maxDeltaE,
+            thresholds.maxDeltaE,
+            result.maxDeltaE <= thresholds.maxDeltaE
+          ),
+        ]
+      : []),
+  ],
+  details: (result) => [
+    {
+      label: "Display Test",
+      value: result.testCompleted ? "Completed" : "Failed",
+    },
+    { label: "Session", value: result.sessionId },
+    { label: "Duration", value: `${(result.duration / 1000).toFixed(1)}s` },
+    {
+      label: "Patterns Analysed",
+      value: `${result.analyzedPatterns}/${result.patterns.length}`,
+    },
+    {
+      label: "Dead Pixels",
+      value:
+        result.deadPixels.length === 0
+          ? "None"
+          : result.deadPixels.map(({ x, y }) => `(${x}, ${y})`).join(", "),
+    },
+    ...result.patterns.map((shown) => ({
+      label: shown.title,
+      value: formatDisplayPattern(shown),
+    })),
+  ],
+  toDiagnosticStatus: displayDefectToDiagnosticStatus,
+});
+
+function proximityPassed(
+  result: ProximitySensorResult,
+  thresholds: TestThresholds
+) {
+  return (
+    result.success && result.activationTime <= thresholds.maxActivationTimeMs
+  );
+}
+
+export const proximitySensorPlugin = defineTestPlugin<
+  ProximitySensorResult,
+  { detectionWindow: number }
+>({
+  id: "proximity",
+  title: "Proximity Sensor",
+  description: "Test proximity sensor activation",
+  resultKey: "proximitySensor",
+  component: ProximitySensorTest,
+  defaultParams: { detectionWindow: 10000 },
+  defaultThresholds: { maxActivationTimeMs: 10000 },
+  showFloatingControls: true,
+  isResult: (value): value is ProximitySensorResult =>
+    isRecord(value) &&
+    typeof value.success === "boolean" &&
+    typeof value.sensorActivated === "boolean",
+  score: (result, thresholds) =>
+    proximityPassed(result, thresholds) ? 100 : 0,
+  checks: (result, thresholds) => [
+    { name: "Proximity Sensor", passed: proximityPassed(result, thresholds) },
+  ],
+  metrics: (result, thresholds) => [
+    metric(
+      "Proximity Sensor",
+      proximityPassed(result, thresholds) ? 100 : 0,
+      100,
+      proximityPassed(result, thresholds)
+    ),
+  ],
+  details: (result) => [
+    {
+      label: "Proximity Sensor",
+      value: result.success ? "Activated" : "Failed",
+    },
+    {
+      label: "Activation Time",
+      value: result.sensorActivated
+        ? `${(result.activationTime / 1000).toFixed(1)}s`
+        : "N/A",
+    },
+  ],
+  toDiagnosticStatus: proximitySensorToDiagnosticStatus,
+});
+
+// Suite order. Adding a test means writing a plugin and listing it here.
+export const testRegistry: AnyTestPlugin[] = [
+  touchscreenPlugin,
+  curveTracingPlugin,
+  tapAccuracyPlugin,
+  gesturePlugin,
+  swipeLinearityPlugin,
+  gridCoveragePlugin,
+  ghostTouchPlugin,
+  displayDefectPlugin,
+  proximitySensorPlugin,
+];
+
+export const defaultPlannedTests = resolveTestPlan(
+  createDefaultTestPlan(testRegistry),
+  testRegistry
+);
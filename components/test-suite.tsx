@@ -1,103 +1,59 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { Stepper, Step, StepStatus } from "@/components/ui/stepper";
-import { EnhancedTouchscreenTest } from "./enhanced-touchscreen-test";
-import { DisplayDefectTest } from "./display-defect-test";
-import { ProximitySensorTest } from "./proximity-sensor-test";
 import { DiagnosticReport } from "./diagnostic-report";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, SkipForward, Clock, CheckCircle } from "lucide-react";
-import { useRos } from "@/lib/use-ros";
-
-interface TouchTestResult {
-  multiTouchSupported: boolean;
-  maxSimultaneousTouches: number;
-  averageResponseTime: number;
-  totalTouches: number;
-  testDuration: number;
-  touchPoints: Array<{
-    id: number;
-    x: number;
-    y: number;
-    timestamp: number;
-  }>;
-}
-
-interface ShapeTracingResult {
-  shape: "square" | "diamond";
-  accuracy: number;
-  completionTime: number;
-  tracePoints: Array<{ x: number; y: number; timestamp: number }>;
-  totalDistance: number;
-  deviationScore: number;
-}
-
-interface EnhancedTouchTestResult {
-  basicTouch: TouchTestResult;
-  squareTracing: ShapeTracingResult;
-  diamondTracing: ShapeTracingResult;
-  overallScore: number;
-}
-
-interface DisplayDefectResult {
-  testCompleted: boolean;
-  duration: number;
-  timestamp: number;
-}
-
-interface ProximitySensorResult {
-  sensorActivated: boolean;
-  activationTime: number;
-  testDuration: number;
-  success: boolean;
-}
-
-interface TestSuiteResult {
-  touchscreen?: EnhancedTouchTestResult;
-  displayDefect?: DisplayDefectResult;
-  proximitySensor?: ProximitySensorResult;
-}
+import {
+  Play,
+  Pause,
+  SkipForward,
+  Clock,
+  CheckCircle,
+  OctagonX,
+} from "lucide-react";
+import { useRos, useRosTopic } from "@/lib/use-ros";
+import { adaptTypeName } from "@/lib/ros-dialect";
+import {
+  PHONE_STATUS_TOPIC,
+  RobotCommand,
+  STRING_MESSAGE_TYPE,
+  SuiteState,
+  createStatusMessage,
+} from "@/lib/orchestration";
+import { DeliveryStatus } from "@/lib/publish-queue";
+import { PlannedTest } from "@/lib/test-plans";
+import { TestSuiteResult } from "@/lib/test-results";
 
 interface TestSuiteProps {
+  /** Tests to run, in order, as resolved from the selected test plan. */
+  tests: PlannedTest[];
+  planName?: string;
   onComplete: (results: TestSuiteResult) => void;
   onPublishResult: (results: TestSuiteResult) => void;
   isPublishing: boolean;
-  publishSuccess?: boolean;
-  rosConnected: boolean;
-  rosUrl?: string;
+  deliveryStatus?: DeliveryStatus;
+  /** Latest robot command, received by DiagnosticApp on the suite's behalf. */
+  robotCommand?: RobotCommand | null;
+  /** Called once `robotCommand` has been acted on. */
+  onRobotCommandHandled?: () => void;
 }
 
-const testSteps: Step[] = [
-  {
-    id: "touchscreen",
-    title: "Touch Screen",
-    description: "Test touch responsiveness without scrolling",
-  },
-  {
-    id: "display",
-    title: "Display Defect",
-    description: "RGB color analysis by robot camera",
-  },
-  {
-    id: "proximity",
-    title: "Proximity Sensor",
-    description: "Test proximity sensor activation",
-  },
-  {
-    id: "report",
-    title: "Report",
-    description: "Generate comprehensive diagnostic report",
-  },
-];
+const reportStep: Step = {
+  id: "report",
+  title: "Report",
+  description: "Generate comprehensive diagnostic report",
+};
 
 export function TestSuite({
+  tests,
+  planName,
   onComplete,
   onPublishResult,
   isPublishing,
-  publishSuccess,
-  rosConnected,
-  rosUrl = "ws://localhost:9090",
+  deliveryStatus,
+  robotCommand = null,
+  onRobotCommandHandled,
 }: TestSuiteProps) {
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [stepStatuses, setStepStatuses] = useState<Record<string, StepStatus>>(
@@ -108,177 +64,310 @@ export function TestSuite({
   const [isRunning, setIsRunning] = useState(false);
   const [isWaitingForRobot, setIsWaitingForRobot] = useState(false);
   const [waitingForTest, setWaitingForTest] = useState<string>("");
+  const [isAborted, setIsAborted] = useState(false);
+  // Pending move to the next step after a test that needs no confirmation
+  const autoAdvanceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancelAutoAdvance = useCallback(() => {
+    if (autoAdvanceRef.current) {
+      clearTimeout(autoAdvanceRef.current);
+      autoAdvanceRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => cancelAutoAdvance, [cancelAutoAdvance]);
+
+  const testSteps = useMemo<Step[]>(
+    () => [
+      ...tests.map(({ plugin: { id, title, description } }) => ({
+        id,
+        title,
+        description,
+      })),
+      reportStep,
+    ],
+    [tests]
+  );
+  const reportStepIndex = testSteps.length - 1;
 
   const currentStep = testSteps[currentStepIndex];
+  const currentTest: PlannedTest | undefined = tests[currentStepIndex];
+  const waitingTest = tests.find(
+    ({ plugin }) => plugin.resultKey === waitingForTest
+  );
 
   const updateStepStatus = useCallback((stepId: string, status: StepStatus) => {
     setStepStatuses((prev) => ({ ...prev, [stepId]: status }));
   }, []);
 
-  // ROS connection
-  const { ros } = useRos({ url: rosUrl });
+  // Shared ROS connection
+  const {
+    isConnected: rosConnected,
+    publishMessage,
+    rosVersion,
+  } = useRos();
+
+  const suiteState: SuiteState = isAborted
+    ? "aborted"
+    : !isRunning
+    ? "ready"
+    : isWaitingForRobot
+    ? "waiting"
+    : currentStepIndex === reportStepIndex
+    ? "completed"
+    : isPaused
+    ? "paused"
+    : "running";
+
+  const announceStatus = useCallback(() => {
+    publishMessage(
+      PHONE_STATUS_TOPIC,
+      adaptTypeName(STRING_MESSAGE_TYPE, rosVersion),
+      createStatusMessage({
+        state: suiteState,
+        step: isRunning ? currentStep.id : null,
+        stepIndex: isRunning ? currentStepIndex : -1,
+        stepCount: testSteps.length,
+        waitingFor: isWaitingForRobot ? waitingForTest : null,
+        timestamp: Date.now(),
+      })
+    );
+  }, [
+    publishMessage,
+    rosVersion,
+    suiteState,
+    isRunning,
+    currentStep,
+    currentStepIndex,
+    testSteps.length,
+    isWaitingForRobot,
+    waitingForTest,
+  ]);
 
   const publishTestMessage = useCallback(
     (testName: string, result: any) => {
       if (!rosConnected) return;
 
-      const diagnosticMessage = {
-        header: {
-          stamp: {
-            sec: Math.floor(Date.now() / 1000),
-            nanosec: (Date.now() % 1000) * 1000000,
-          },
-          frame_id: `${testName}_diagnostic`,
-        },
-        name: testName,
-        message: `${testName} test completed`,
-        hardware_id: "mobile_test_suite",
-        values: Object.entries(result).map(([key, value]) => ({
-          key,
-          value: String(value),
-        })),
-      };
-
       onPublishResult({ [testName]: result });
     },
     [rosConnected, onPublishResult]
   );
 
+  // Move past step `index`, activating the next test or the report
+  const advanceFrom = useCallback(
+    (index: number) => {
+      const nextIndex = index + 1;
+      setCurrentStepIndex(nextIndex);
+      updateStepStatus(
+        testSteps[nextIndex].id,
+        nextIndex === reportStepIndex ? "completed" : "active"
+      );
+    },
+    [testSteps, reportStepIndex, updateStepStatus]
+  );
+
   // Manual continue function
   const handleManualContinue = useCallback(() => {
     setIsWaitingForRobot(false);
 
-    if (waitingForTest === "displayDefect") {
-      setCurrentStepIndex(2);
-      updateStepStatus("proximity", "active");
-    } else if (waitingForTest === "proximitySensor") {
-      setCurrentStepIndex(3);
-      updateStepStatus("report", "completed");
-    }
+    const index = tests.findIndex(
+      ({ plugin }) => plugin.resultKey === waitingForTest
+    );
+    if (index >= 0) advanceFrom(index);
 
     setWaitingForTest("");
-  }, [waitingForTest, updateStepStatus]);
+  }, [tests, waitingForTest, advanceFrom]);
 
   // Listen for robot confirmation messages
-  useEffect(() => {
-    if (rosConnected && ros && isWaitingForRobot) {
-      try {
-        // @ts-ignore - ROS library typing issues
-        const topic = new ros.Topic({
-          name: "/robot_test_confirmation",
-          messageType: "std_msgs/String",
-        });
-
-        const handleMessage = (message: any) => {
-          if (message.data === `${waitingForTest}_confirmed`) {
-            handleManualContinue();
-          }
-        };
-
-        topic.subscribe(handleMessage);
-
-        return () => {
-          topic.unsubscribe();
-        };
-      } catch (error) {
-        console.error("Error subscribing to robot confirmation topic:", error);
+  useRosTopic<{ data: string }>(
+    "/robot_test_confirmation",
+    "std_msgs/String",
+    (message) => {
+      if (message.data === `${waitingForTest}_confirmed`) {
+        handleManualContinue();
       }
-    }
-  }, [
-    rosConnected,
-    ros,
-    isWaitingForRobot,
-    waitingForTest,
-    handleManualContinue,
-  ]);
-
-  const handleTouchscreenComplete = useCallback(
-    (result: EnhancedTouchTestResult) => {
-      const newResults = { ...results, touchscreen: result };
-      setResults(newResults);
-      updateStepStatus("touchscreen", "completed");
-      publishTestMessage("touchscreen", result);
-
-      // Move to next test
-      setTimeout(() => {
-        setCurrentStepIndex(1);
-        updateStepStatus("display", "active");
-      }, 1000);
     },
-    [results, updateStepStatus, publishTestMessage]
+    { enabled: rosConnected && isWaitingForRobot }
   );
 
-  const handleDisplayDefectComplete = useCallback(
-    (result: DisplayDefectResult) => {
-      const newResults = { ...results, displayDefect: result };
-      setResults(newResults);
-      updateStepStatus("display", "completed");
-      publishTestMessage("displayDefect", result);
-
-      // Wait for robot confirmation
-      setIsWaitingForRobot(true);
-      setWaitingForTest("displayDefect");
+  const handleTestComplete = useCallback(
+    (result: unknown) => {
+      if (!currentTest) return;
+
+      const { id, resultKey, awaitRobotConfirmation } = currentTest.plugin;
+      setResults((prev) => ({ ...prev, [resultKey]: result }));
+      updateStepStatus(id, "completed");
+      publishTestMessage(resultKey, result);
+
+      if (awaitRobotConfirmation) {
+        // Wait for robot confirmation
+        setIsWaitingForRobot(true);
+        setWaitingForTest(resultKey);
+      } else {
+        // Automatically continue to next test
+        cancelAutoAdvance();
+        autoAdvanceRef.current = setTimeout(() => {
+          autoAdvanceRef.current = null;
+          advanceFrom(currentStepIndex);
+        }, 1000);
+      }
     },
-    [results, updateStepStatus, publishTestMessage]
+    [
+      currentTest,
+      currentStepIndex,
+      updateStepStatus,
+      publishTestMessage,
+      advanceFrom,
+      cancelAutoAdvance,
+    ]
   );
 
-  const handleProximitySensorComplete = useCallback(
-    (result: ProximitySensorResult) => {
-      const newResults = { ...results, proximitySensor: result };
-      setResults(newResults);
-      updateStepStatus("proximity", "completed");
-      publishTestMessage("proximitySensor", result);
-
-      // Automatically continue to next test
-      setTimeout(() => {
-        setCurrentStepIndex(3);
-        updateStepStatus("report", "active");
-      }, 1000);
+  const handleStartTest = useCallback(() => {
+    cancelAutoAdvance();
+    setIsRunning(true);
+    setIsAborted(false);
+    setCurrentStepIndex(0);
+    setStepStatuses({});
+    setResults({});
+    updateStepStatus(testSteps[0].id, "active");
+  }, [testSteps, updateStepStatus, cancelAutoAdvance]);
+
+  // Robot-commanded start; jumps straight to `stepId` when one is given
+  const handleStartAtStep = useCallback(
+    (stepId?: string) => {
+      const index = stepId
+        ? testSteps.findIndex((step) => step.id === stepId)
+        : 0;
+      if (index < 0 || index >= reportStepIndex) {
+        console.warn(`Robot requested unknown test step "${stepId}"`);
+        return;
+      }
+
+      cancelAutoAdvance();
+      if (!isRunning) {
+        setStepStatuses({});
+        setResults({});
+      }
+      setIsRunning(true);
+      setIsAborted(false);
+      setIsPaused(false);
+      setIsWaitingForRobot(false);
+      setWaitingForTest("");
+      setCurrentStepIndex(index);
+      updateStepStatus(testSteps[index].id, "active");
     },
-    [results, updateStepStatus, publishTestMessage]
+    [
+      isRunning,
+      testSteps,
+      reportStepIndex,
+      updateStepStatus,
+      cancelAutoAdvance,
+    ]
   );
 
-  const handleStartTest = useCallback(() => {
-    setIsRunning(true);
+  const handleAbort = useCallback(() => {
+    cancelAutoAdvance();
+    setIsRunning(false);
+    setIsAborted(true);
+    setIsPaused(false);
+    setIsWaitingForRobot(false);
+    setWaitingForTest("");
     setCurrentStepIndex(0);
     setStepStatuses({});
     setResults({});
-    updateStepStatus("touchscreen", "active");
-  }, [updateStepStatus]);
+  }, [cancelAutoAdvance]);
 
   const handlePauseResume = useCallback(() => {
     setIsPaused(!isPaused);
   }, [isPaused]);
 
   const handleSkipStep = useCallback(() => {
-    if (currentStepIndex < testSteps.length - 1) {
+    if (currentStepIndex < reportStepIndex) {
+      cancelAutoAdvance();
       updateStepStatus(currentStep.id, "completed");
       setCurrentStepIndex(currentStepIndex + 1);
-      if (currentStepIndex + 1 < testSteps.length - 1) {
+      if (currentStepIndex + 1 < reportStepIndex) {
         updateStepStatus(testSteps[currentStepIndex + 1].id, "active");
       }
     }
-  }, [currentStepIndex, currentStep, updateStepStatus]);
+  }, [
+    currentStepIndex,
+    currentStep,
+    testSteps,
+    reportStepIndex,
+    updateStepStatus,
+    cancelAutoAdvance,
+  ]);
 
   const handleRetry = useCallback(() => {
+    cancelAutoAdvance();
     setCurrentStepIndex(0);
     setStepStatuses({});
     setResults({});
     setIsRunning(true);
-    updateStepStatus("touchscreen", "active");
-  }, [updateStepStatus]);
+    updateStepStatus(testSteps[0].id, "active");
+  }, [testSteps, updateStepStatus, cancelAutoAdvance]);
 
   const handlePublish = useCallback(() => {
     onPublishResult(results);
   }, [results, onPublishResult]);
 
+  // Act on robot orchestration commands relayed by DiagnosticApp
+  useEffect(() => {
+    if (!robotCommand) return;
+    onRobotCommandHandled?.();
+
+    switch (robotCommand.command) {
+      case "start":
+        handleStartAtStep(robotCommand.step);
+        break;
+      case "skip":
+        if (isWaitingForRobot) {
+          handleManualContinue();
+        } else if (isRunning) {
+          handleSkipStep();
+        }
+        break;
+      case "abort":
+        handleAbort();
+        break;
+      case "query":
+        announceStatus();
+        break;
+    }
+  }, [
+    robotCommand,
+    onRobotCommandHandled,
+    handleStartAtStep,
+    isWaitingForRobot,
+    isRunning,
+    handleManualContinue,
+    handleSkipStep,
+    handleAbort,
+    announceStatus,
+  ]);
+
+  // Announce every state transition to the robot
+  useEffect(() => {
+    if (rosConnected) announceStatus();
+  }, [rosConnected, announceStatus]);
+
   // Auto-complete when reaching report step
   useEffect(() => {
-    if (currentStepIndex === 3 && Object.keys(results).length > 0) {
+    if (
+      currentStepIndex === reportStepIndex &&
+      Object.keys(results).length > 0
+    ) {
       updateStepStatus("report", "completed");
       onComplete(results);
     }
-  }, [currentStepIndex, results, updateStepStatus, onComplete]);
+  }, [
+    currentStepIndex,
+    reportStepIndex,
+    results,
+    updateStepStatus,
+    onComplete,
+  ]);
 
   // If not started yet, show start screen
   if (!isRunning) {
@@ -295,11 +384,21 @@ export function TestSuite({
             </p>
           </div>
 
+          {isAborted && (
+            <div className="flex items-center justify-center space-x-2 rounded-lg p-3 bg-red-50 border border-red-200 text-sm text-red-700">
+              <OctagonX className="w-4 h-4" />
+              <span>The previous run was aborted by the robot</span>
+            </div>
+          )}
+
           {/* Test Preview */}
           <div className="bg-white rounded-lg p-6 shadow-sm space-y-4">
             <h2 className="text-lg font-semibold text-gray-900">
               Test Overview
             </h2>
+            {planName && (
+              <p className="text-sm text-gray-500">Test plan: {planName}</p>
+            )}
             <Stepper
               steps={testSteps}
               currentStep={-1}
@@ -316,7 +415,10 @@ export function TestSuite({
               <Play className="w-5 h-5 mr-2" />
               Start Test Suite
             </Button>
-            <p className="text-sm text-gray-500">Estimated time: 2-3 minutes</p>
+            <p className="text-sm text-gray-500">
+              Estimated time: 2-3 minutes
+              {rosConnected && " • The robot can also start the suite"}
+            </p>
           </div>
         </div>
       </div>
@@ -332,17 +434,17 @@ export function TestSuite({
           <div className="max-w-md mx-auto px-4 py-3">
             <div className="text-center">
               <div className="text-sm text-gray-600 mb-1">
-                Step {currentStepIndex + 1}/4
+                Step {currentStepIndex + 1}/{testSteps.length}
               </div>
               <div className="text-lg font-semibold">
-                {waitingForTest === "displayDefect"
-                  ? "Display Test Complete"
-                  : "Proximity Test Complete"}
+                {waitingTest?.plugin.title ?? "Test"} Complete
               </div>
               <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
                 <div
                   className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(currentStepIndex / 3) * 100}%` }}
+                  style={{
+                    width: `${(currentStepIndex / reportStepIndex) * 100}%`,
+                  }}
                 />
               </div>
             </div>
@@ -389,14 +491,18 @@ export function TestSuite({
   }
 
   // Show report if we've reached the final step
-  if (currentStepIndex === 3 && Object.keys(results).length > 0) {
+  if (
+    currentStepIndex === reportStepIndex &&
+    Object.keys(results).length > 0
+  ) {
     return (
       <DiagnosticReport
         results={results}
+        tests={tests}
         onRetry={handleRetry}
         onPublishResult={handlePublish}
         isPublishing={isPublishing}
-        publishSuccess={publishSuccess}
+        deliveryStatus={deliveryStatus}
         rosConnected={rosConnected}
       />
     );
@@ -410,7 +516,7 @@ export function TestSuite({
         <div className="flex items-center justify-between text-sm">
           <div className="flex items-center space-x-2">
             <span className="font-medium text-gray-900">
-              Step {currentStepIndex + 1}/4: {currentStep.title}
+              Step {currentStepIndex + 1}/{testSteps.length}: {currentStep.title}
             </span>
           </div>
           <div className="flex items-center space-x-1">
@@ -418,7 +524,7 @@ export function TestSuite({
               onClick={handlePauseResume}
               variant="outline"
               size="sm"
-              disabled={currentStepIndex >= 3}
+              disabled={currentStepIndex >= reportStepIndex}
               className="h-8 px-2"
             >
               {isPaused ? (
@@ -431,7 +537,7 @@ export function TestSuite({
               onClick={handleSkipStep}
               variant="outline"
               size="sm"
-              disabled={currentStepIndex >= 3}
+              disabled={currentStepIndex >= reportStepIndex}
               className="h-8 px-2"
             >
               <SkipForward className="w-3 h-3" />
@@ -452,21 +558,13 @@ export function TestSuite({
 
       {/* Main Content Area - with minimal top padding */}
       <div className="pt-16">
-        {currentStep.id === "touchscreen" && !isPaused && (
-          <EnhancedTouchscreenTest onTestComplete={handleTouchscreenComplete} />
-        )}
-
-        {currentStep.id === "display" && !isPaused && (
-          <DisplayDefectTest
-            onTestComplete={handleDisplayDefectComplete}
-            showFloatingControls={true}
-          />
-        )}
-
-        {currentStep.id === "proximity" && !isPaused && (
-          <ProximitySensorTest
-            onTestComplete={handleProximitySensorComplete}
-            showFloatingControls={true}
+        {currentTest && !isPaused && (
+          <currentTest.plugin.component
+            key={currentTest.plugin.id}
+            {...currentTest.params}
+            thresholds={currentTest.thresholds}
+            onTestComplete={handleTestComplete}
+            showFloatingControls={currentTest.plugin.showFloatingControls}
           />
         )}
 
@@ -2,22 +2,8 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-
-interface TouchPoint {
-  id: number;
-  x: number;
-  y: number;
-  timestamp: number;
-}
-
-interface TouchTestResult {
-  multiTouchSupported: boolean;
-  maxSimultaneousTouches: number;
-  averageResponseTime: number;
-  totalTouches: number;
-  testDuration: number;
-  touchPoints: TouchPoint[];
-}
+import { TouchTestResult } from "@/lib/test-results";
+import { useTouchCapture } from "@/lib/use-touch-capture";
 
 interface TouchscreenTestProps {
   onTestComplete: (result: TouchTestResult) => void;
@@ -32,26 +18,25 @@ export function TouchscreenTest({
 }: TouchscreenTestProps) {
   const [isTestActive, setIsTestActive] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(0);
-  const [touches, setTouches] = useState<TouchPoint[]>([]);
-  const [currentTouches, setCurrentTouches] = useState<Map<number, TouchPoint>>(
-    new Map()
-  );
-  const [maxSimultaneous, setMaxSimultaneous] = useState(0);
 
   const testAreaRef = useRef<HTMLDivElement>(null);
   const startTimeRef = useRef<number>(0);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const touchCountRef = useRef(0);
-  const responseTimes = useRef<number[]>([]);
+  const {
+    touches,
+    currentTouches,
+    maxSimultaneous,
+    touchCount,
+    pointerHandlers,
+    reset: resetCapture,
+    getLatency,
+    getForce,
+  } = useTouchCapture({ areaRef: testAreaRef, enabled: isTestActive });
 
   const startTest = useCallback(() => {
     setIsTestActive(true);
     setTimeRemaining(testDuration);
-    setTouches([]);
-    setCurrentTouches(new Map());
-    setMaxSimultaneous(0);
-    touchCountRef.current = 0;
-    responseTimes.current = [];
+    resetCapture();
     startTimeRef.current = Date.now();
 
     intervalRef.current = setInterval(() => {
@@ -63,78 +48,21 @@ export function TouchscreenTest({
         return prev - 1000;
       });
     }, 1000);
-  }, [testDuration]);
-
-  const handleTouchStart = useCallback(
-    (e: React.TouchEvent) => {
-      if (!isTestActive) return;
-
-      e.preventDefault();
-      const touchStartTime = Date.now();
-      const newTouches = new Map(currentTouches);
-
-      Array.from(e.changedTouches).forEach((touch) => {
-        const rect = testAreaRef.current?.getBoundingClientRect();
-        if (!rect) return;
-
-        const touchPoint: TouchPoint = {
-          id: touch.identifier,
-          x: touch.clientX - rect.left,
-          y: touch.clientY - rect.top,
-          timestamp: touchStartTime,
-        };
-
-        newTouches.set(touch.identifier, touchPoint);
-        touchCountRef.current++;
-
-        // Measure response time (simplified - time since touch start)
-        responseTimes.current.push(Date.now() - touchStartTime);
-      });
-
-      setCurrentTouches(newTouches);
-      setMaxSimultaneous((prev) => Math.max(prev, newTouches.size));
-      setTouches((prev) => [...prev, ...Array.from(newTouches.values())]);
-    },
-    [isTestActive, currentTouches]
-  );
-
-  const handleTouchEnd = useCallback(
-    (e: React.TouchEvent) => {
-      if (!isTestActive) return;
-
-      e.preventDefault();
-      const newTouches = new Map(currentTouches);
-
-      Array.from(e.changedTouches).forEach((touch) => {
-        newTouches.delete(touch.identifier);
-      });
-
-      setCurrentTouches(newTouches);
-    },
-    [isTestActive, currentTouches]
-  );
-
-  const handleTouchMove = useCallback(
-    (e: React.TouchEvent) => {
-      if (!isTestActive) return;
-      e.preventDefault();
-    },
-    [isTestActive]
-  );
+  }, [testDuration, resetCapture]);
 
   useEffect(() => {
     if (!isTestActive && timeRemaining === 0 && touches.length > 0) {
+      const latency = getLatency();
       const testResult: TouchTestResult = {
         multiTouchSupported: maxSimultaneous > 1,
         maxSimultaneousTouches: maxSimultaneous,
-        averageResponseTime:
-          responseTimes.current.length > 0
-            ? responseTimes.current.reduce((a, b) => a + b, 0) /
-              responseTimes.current.length
-            : 0,
-        totalTouches: touchCountRef.current,
+        // Touch to the frame that can first show feedback for it
+        averageResponseTime: latency.frame.mean,
+        totalTouches: touchCount,
         testDuration: testDuration,
         touchPoints: touches,
+        latency,
+        force: getForce(),
       };
 
       onTestComplete(testResult);
@@ -144,8 +72,11 @@ export function TouchscreenTest({
     timeRemaining,
     touches,
     maxSimultaneous,
+    touchCount,
     testDuration,
     onTestComplete,
+    getLatency,
+    getForce,
   ]);
 
   useEffect(() => {
@@ -262,7 +193,7 @@ export function TouchscreenTest({
             <div className="text-center">
               <div className="text-sm font-medium text-gray-900">
                 {Math.ceil(timeRemaining / 1000)}s | Touches:{" "}
-                {touchCountRef.current} | Max: {maxSimultaneous}
+                {touchCount} | Max: {maxSimultaneous}
               </div>
               <div className="w-48 h-1 bg-gray-200 rounded-full mt-1">
                 <div
@@ -285,7 +216,7 @@ export function TouchscreenTest({
                 Time: {Math.ceil(timeRemaining / 1000)}s
               </div>
               <div className="text-sm text-gray-600">
-                Touches: {touchCountRef.current} | Max: {maxSimultaneous}
+                Touches: {touchCount} | Max: {maxSimultaneous}
               </div>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
@@ -305,9 +236,7 @@ export function TouchscreenTest({
         <div
           ref={testAreaRef}
           className="absolute inset-0 pt-16"
-          onTouchStart={handleTouchStart}
-          onTouchEnd={handleTouchEnd}
-          onTouchMove={handleTouchMove}
+          {...pointerHandlers}
           style={{ touchAction: "none" }}
         >
           {/* Instructions */}
@@ -370,7 +299,7 @@ export function TouchscreenTest({
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div className="text-center">
                 <div className="text-2xl font-bold text-blue-600">
-                  {touchCountRef.current}
+                  {touchCount}
                 </div>
                 <div className="text-gray-600">Total Touches</div>
               </div>
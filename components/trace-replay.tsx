@@ -0,0 +1,283 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  CurveTracingResult,
+  EnhancedTouchTestResult,
+  ShapeTracingResult,
+  TouchPoint,
+} from "@/lib/test-results";
+import { parseOutline, tracingTitle } from "@/lib/tracing-shapes";
+import {
+  MAX_ACCEPTABLE_DEVIATION_MM,
+  distanceToPolyline,
+} from "@/lib/trace-scoring";
+import { pxToMm } from "@/lib/screen-units";
+
+const TOUCH_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#9333ea", "#ea580c"];
+
+// Green on the outline, red at the deviation that scores zero
+function deviationColor(deviationMm: number) {
+  const share = Math.min(1, deviationMm / MAX_ACCEPTABLE_DEVIATION_MM);
+  const hue = 120 * (1 - share);
+  return `hsl(${hue.toFixed(0)}, 80%, 45%)`;
+}
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+// Playback position in ms from the first sample; starts at the end so the
+// whole trace shows until someone scrubs or presses play
+function useReplayClock(duration: number) {
+  const [time, setTime] = useState(duration);
+  const [playing, setPlaying] = useState(false);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const from = timeRef.current >= duration ? 0 : timeRef.current;
+    const origin = performance.now() - from;
+    let frame = requestAnimationFrame(function tick(now) {
+      const next = Math.min(duration, now - origin);
+      setTime(next);
+      if (next >= duration) {
+        setPlaying(false);
+      } else {
+        frame = requestAnimationFrame(tick);
+      }
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, duration]);
+
+  return {
+    time,
+    playing,
+    toggle: () => setPlaying((current) => !current),
+    seek: (value: number) => {
+      setPlaying(false);
+      setTime(value);
+    },
+  };
+}
+
+function ReplayControls({
+  clock,
+  duration,
+}: {
+  clock: ReturnType<typeof useReplayClock>;
+  duration: number;
+}) {
+  return (
+    <div className="flex items-center space-x-3">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={clock.toggle}
+        disabled={duration === 0}
+      >
+        {clock.playing ? (
+          <Pause className="w-4 h-4" />
+        ) : (
+          <Play className="w-4 h-4" />
+        )}
+      </Button>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={1}
+        value={clock.time}
+        onChange={(e) => clock.seek(Number(e.target.value))}
+        className="flex-1"
+        aria-label="Replay position"
+      />
+      <span className="w-14 text-right text-xs font-mono text-gray-600">
+        {formatSeconds(clock.time)}
+      </span>
+    </div>
+  );
+}
+
+interface TraceReplayProps {
+  tracing: ShapeTracingResult;
+  title: string;
+}
+
+/** Ideal outline with the trace overlaid, coloured by distance from it. */
+export function TraceReplay({ tracing, title }: TraceReplayProps) {
+  const { tracePoints, canvasSize, pxPerMm } = tracing;
+  const outline = useMemo(
+    () => (tracing.path ? parseOutline(tracing.path) : []),
+    [tracing.path]
+  );
+  const samples = useMemo(
+    () =>
+      tracePoints.map((point) => ({
+        x: point.x,
+        y: point.y,
+        time: point.timestamp - tracePoints[0].timestamp,
+        strokeStart: point.strokeStart,
+        deviationMm:
+          outline.length > 0
+            ? pxToMm(distanceToPolyline(point, outline), pxPerMm)
+            : 0,
+      })),
+    [tracePoints, outline, pxPerMm]
+  );
+
+  const duration = samples.length > 0 ? samples[samples.length - 1].time : 0;
+  const clock = useReplayClock(duration);
+  const visible = samples.filter((sample) => sample.time <= clock.time);
+  const current = visible[visible.length - 1];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-gray-900">{title}</span>
+        <span className="text-gray-600">
+          {tracing.accuracy}% · max {tracing.maxDeviationMm.toFixed(1)}mm
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${canvasSize} ${canvasSize}`}
+        className="mx-auto max-w-xs w-full border border-gray-200 bg-gray-50"
+      >
+        {tracing.path && (
+          <path
+            d={tracing.path}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            strokeDasharray="8 4"
+          />
+        )}
+        {visible.slice(1).map((sample, i) =>
+          sample.strokeStart ? (
+            // The finger lifted at visible[i] and came down again here
+            <circle
+              key={i}
+              cx={visible[i].x}
+              cy={visible[i].y}
+              r={4}
+              fill="#ffffff"
+              stroke="#6b7280"
+              strokeWidth={2}
+            >
+              <title>Finger lifted</title>
+            </circle>
+          ) : (
+            <line
+              key={i}
+              x1={visible[i].x}
+              y1={visible[i].y}
+              x2={sample.x}
+              y2={sample.y}
+              stroke={deviationColor(sample.deviationMm)}
+              strokeWidth={3}
+              strokeLinecap="round"
+            />
+          )
+        )}
+        {current && (
+          <circle
+            cx={current.x}
+            cy={current.y}
+            r={6}
+            fill="none"
+            stroke="#111827"
+            strokeWidth={2}
+          >
+            <title>{`${current.deviationMm.toFixed(1)}mm off`}</title>
+          </circle>
+        )}
+      </svg>
+      <ReplayControls clock={clock} duration={duration} />
+    </div>
+  );
+}
+
+interface TouchReplayProps {
+  touchPoints: TouchPoint[];
+}
+
+/** Touch-downs appearing in the order and at the time they were recorded. */
+export function TouchReplay({ touchPoints }: TouchReplayProps) {
+  const start = touchPoints.length > 0 ? touchPoints[0].timestamp : 0;
+  const duration =
+    touchPoints.length > 0
+      ? touchPoints[touchPoints.length - 1].timestamp - start
+      : 0;
+  const clock = useReplayClock(duration);
+
+  // Fit the view to the touches; positions are relative to the test area
+  const width = Math.max(1, ...touchPoints.map((point) => point.x)) + 20;
+  const height = Math.max(1, ...touchPoints.map((point) => point.y)) + 20;
+  const visible = touchPoints.filter(
+    (point) => point.timestamp - start <= clock.time
+  );
+  const ids = Array.from(new Set(touchPoints.map((point) => point.id)));
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="mx-auto max-w-xs w-full border border-gray-200 bg-gray-50"
+      >
+        {visible.map((point, i) => (
+          <circle
+            key={i}
+            cx={point.x}
+            cy={point.y}
+            r={i === visible.length - 1 ? 12 : 8}
+            fill={TOUCH_COLORS[ids.indexOf(point.id) % TOUCH_COLORS.length]}
+            fillOpacity={i === visible.length - 1 ? 0.9 : 0.4}
+          >
+            <title>
+              Pointer {point.id} at {formatSeconds(point.timestamp - start)}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <ReplayControls clock={clock} duration={duration} />
+      <p className="text-center text-xs text-gray-500">
+        {visible.length}/{touchPoints.length} touches, coloured by pointer
+      </p>
+    </div>
+  );
+}
+
+export function TouchscreenReplay({
+  result,
+}: {
+  result: EnhancedTouchTestResult;
+}) {
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <TraceReplay tracing={result.squareTracing} title="Square" />
+      <TraceReplay tracing={result.diamondTracing} title="Diamond" />
+      {result.basicTouch.touchPoints.length > 0 && (
+        <TouchReplay touchPoints={result.basicTouch.touchPoints} />
+      )}
+    </div>
+  );
+}
+
+export function CurveTracingReplay({ result }: { result: CurveTracingResult }) {
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {result.tracings.map((tracing, index) => (
+        <TraceReplay
+          key={index}
+          tracing={tracing}
+          title={tracingTitle(tracing.shape, index)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,580 @@
+import {
+  CurveTracingResult,
+  DisplayDefectResult,
+  EnhancedTouchTestResult,
+  ForceDistribution,
+  GestureTestResult,
+  GhostTouchResult,
+  GridCoverageResult,
+  LatencyStats,
+  ProximitySensorResult,
+  ShapeTracingResult,
+  SwipeLinearityResult,
+  TapAccuracyResult,
+  TestSuiteResult,
+  TouchLatencyResult,
+  TouchTestResult,
+} from "./test-results";
+import { touchResponseTime } from "./touch-latency";
+import {
+  gesturePassed,
+  swipePassed,
+  tapBiasMm,
+  tracingPassed,
+} from "./test-checks";
+import { TestThresholds } from "./test-plugin";
+import type { PlannedTest } from "./test-plans";
+import {
+  DEFAULT_ROS_VERSION,
+  RosTime,
+  RosVersion,
+  adaptTypeName,
+  createRosTime,
+} from "./ros-dialect";
+
+// Mirrors the byte constants in diagnostic_msgs/DiagnosticStatus
+export const DiagnosticLevel = {
+  OK: 0,
+  WARN: 1,
+  ERROR: 2,
+  STALE: 3,
+} as const;
+
+export type DiagnosticLevelValue =
+  (typeof DiagnosticLevel)[keyof typeof DiagnosticLevel];
+
+export interface Header {
+  stamp: RosTime;
+  frame_id: string;
+}
+
+export interface KeyValue {
+  key: string;
+  value: string;
+}
+
+export interface DiagnosticStatus {
+  level: DiagnosticLevelValue;
+  name: string;
+  message: string;
+  hardware_id: string;
+  values: KeyValue[];
+}
+
+export interface DiagnosticArray {
+  header: Header;
+  status: DiagnosticStatus[];
+}
+
+export const DIAGNOSTICS_TOPIC = "/diagnostics";
+export const DIAGNOSTIC_ARRAY_TYPE = "diagnostic_msgs/DiagnosticArray";
+
+const SUITE_HARDWARE_ID = "mobile_test_suite";
+const WARNING_SCORE = 40;
+const MIN_WARN_COVERAGE = 90;
+
+export function diagnosticArrayType(
+  version: RosVersion = DEFAULT_ROS_VERSION
+) {
+  return adaptTypeName(DIAGNOSTIC_ARRAY_TYPE, version);
+}
+
+export function createHeader(
+  frameId: string,
+  version: RosVersion = DEFAULT_ROS_VERSION,
+  timeMs = Date.now()
+): Header {
+  return {
+    stamp: createRosTime(timeMs, version),
+    frame_id: frameId,
+  };
+}
+
+export function createKeyValues(
+  values: Record<string, string | number | boolean>
+): KeyValue[] {
+  return Object.entries(values).map(([key, value]) => ({
+    key,
+    value: String(value),
+  }));
+}
+
+export function createDiagnosticArray(
+  status: DiagnosticStatus[],
+  frameId = "test_suite_diagnostic",
+  version: RosVersion = DEFAULT_ROS_VERSION
+): DiagnosticArray {
+  return {
+    header: createHeader(frameId, version),
+    status,
+  };
+}
+
+function latencyKeyValues(
+  latency: TouchLatencyResult | undefined
+): KeyValue[] {
+  if (!latency) return [];
+
+  const stats: Array<[string, LatencyStats | undefined]> = [
+    ["input", latency.input],
+    ["frame", latency.frame],
+    ["end_to_end", latency.endToEnd],
+  ];
+
+  return stats.flatMap(([name, value]) =>
+    value
+      ? createKeyValues({
+          [`latency_${name}_samples`]: value.samples,
+          [`latency_${name}_p50_ms`]: value.p50.toFixed(1),
+          [`latency_${name}_p95_ms`]: value.p95.toFixed(1),
+          [`latency_${name}_max_ms`]: value.max.toFixed(1),
+        })
+      : []
+  );
+}
+
+function forceKeyValues(force: ForceDistribution | undefined): KeyValue[] {
+  if (!force || force.samples === 0) return [];
+
+  return createKeyValues({
+    force_samples: force.samples,
+    force_pointer_types: JSON.stringify(force.pointerTypes),
+    force_pressure_reported: force.pressureReported,
+    force_pressure_p50: force.p50.toFixed(3),
+    force_pressure_p95: force.p95.toFixed(3),
+    force_pressure_max: force.max.toFixed(3),
+    force_histogram: JSON.stringify(force.histogram),
+    contact_width_px: force.meanContactWidth.toFixed(1),
+    contact_height_px: force.meanContactHeight.toFixed(1),
+  });
+}
+
+// OK when every report check passes; otherwise the score tells a marginal
+// result from a broken one
+function levelFromChecks(
+  passed: boolean,
+  score: number
+): DiagnosticLevelValue {
+  if (passed) return DiagnosticLevel.OK;
+  return score >= WARNING_SCORE ? DiagnosticLevel.WARN : DiagnosticLevel.ERROR;
+}
+
+export function touchTestToDiagnosticStatus(
+  result: TouchTestResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  const isHealthy =
+    result.totalTouches >= 5 &&
+    touchResponseTime(result) < thresholds.maxResponseTimeMs &&
+    result.maxSimultaneousTouches >= 1;
+
+  return {
+    level: isHealthy
+      ? DiagnosticLevel.OK
+      : result.totalTouches > 0
+      ? DiagnosticLevel.WARN
+      : DiagnosticLevel.ERROR,
+    name: "touchscreen_test",
+    message: `Touchscreen diagnostic completed. Multi-touch: ${
+      result.multiTouchSupported
+    }, Max touches: ${
+      result.maxSimultaneousTouches
+    }, Response time: ${result.averageResponseTime.toFixed(2)}ms`,
+    hardware_id: "mobile_touchscreen",
+    values: [
+      ...createKeyValues({
+        multi_touch_supported: result.multiTouchSupported,
+        max_simultaneous_touches: result.maxSimultaneousTouches,
+        average_response_time_ms: result.averageResponseTime.toFixed(2),
+        total_touches: result.totalTouches,
+        test_duration_ms: result.testDuration,
+      }),
+      ...latencyKeyValues(result.latency),
+      ...forceKeyValues(result.force),
+    ],
+  };
+}
+
+// Every scoring component, so the robot can apply its own limits
+function tracingKeyValues(
+  prefix: string,
+  tracing: ShapeTracingResult
+): KeyValue[] {
+  return createKeyValues({
+    [`${prefix}_accuracy`]: tracing.accuracy,
+    [`${prefix}_deviation_score`]: tracing.deviationScore,
+    [`${prefix}_coverage_percent`]: tracing.coverage.toFixed(0),
+    [`${prefix}_start_deviation_px`]: tracing.startDeviation.toFixed(1),
+    [`${prefix}_start_score`]: tracing.startScore,
+    [`${prefix}_direction_score`]: tracing.directionScore,
+    [`${prefix}_reversed`]: tracing.reversed,
+    [`${prefix}_mean_deviation_px`]: tracing.meanDeviation.toFixed(1),
+    [`${prefix}_max_deviation_mm`]: tracing.maxDeviationMm.toFixed(2),
+    [`${prefix}_shape_size_mm`]: tracing.shapeSizeMm.toFixed(1),
+    [`${prefix}_px_per_mm`]: tracing.pxPerMm.toFixed(3),
+  });
+}
+
+export function touchscreenToDiagnosticStatus(
+  result: EnhancedTouchTestResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  const passed =
+    touchResponseTime(result.basicTouch) < thresholds.maxResponseTimeMs &&
+    tracingPassed(result.squareTracing, thresholds) &&
+    tracingPassed(result.diamondTracing, thresholds);
+
+  return {
+    level: levelFromChecks(passed, result.overallScore),
+    name: "touchscreen_test",
+    message: `Touchscreen test completed. Response time: ${result.basicTouch.averageResponseTime.toFixed(
+      2
+    )}ms, Overall score: ${result.overallScore}%`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: [
+      ...createKeyValues({
+        average_response_time_ms:
+          result.basicTouch.averageResponseTime.toFixed(2),
+        total_touches: result.basicTouch.totalTouches,
+        overall_score: result.overallScore,
+      }),
+      ...tracingKeyValues("square", result.squareTracing),
+      ...tracingKeyValues("diamond", result.diamondTracing),
+      ...latencyKeyValues(result.basicTouch.latency),
+      ...forceKeyValues(result.basicTouch.force),
+    ],
+  };
+}
+
+export function gridCoverageToDiagnosticStatus(
+  result: GridCoverageResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  return {
+    level:
+      result.coverage >= thresholds.minCoverage
+        ? DiagnosticLevel.OK
+        : result.coverage >= MIN_WARN_COVERAGE
+        ? DiagnosticLevel.WARN
+        : DiagnosticLevel.ERROR,
+    name: "touch_coverage_test",
+    message: `Touch coverage test completed. Coverage: ${result.coverage.toFixed(
+      1
+    )}%, Dead cells: ${result.deadCells.length}/${
+      result.rows * result.columns
+    }`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: createKeyValues({
+      rows: result.rows,
+      columns: result.columns,
+      coverage_percent: result.coverage.toFixed(1),
+      dead_cell_count: result.deadCells.length,
+      // [[row, column], ...] so the robot can map them back to screen regions
+      dead_cells: JSON.stringify(
+        result.deadCells.map(({ row, column }) => [row, column])
+      ),
+      viewport_px: `${result.viewport.width}x${result.viewport.height}`,
+      test_duration_ms: result.testDuration,
+    }),
+  };
+}
+
+export function gestureTestToDiagnosticStatus(
+  result: GestureTestResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  const completed = result.gestures.filter((gesture) => gesture.completed);
+
+  return {
+    level: levelFromChecks(
+      result.gestures.every((gesture) => gesturePassed(gesture, thresholds)),
+      result.overallScore
+    ),
+    name: "multitouch_gesture_test",
+    message: `Multi-touch gesture test completed. Gestures: ${
+      completed.length
+    }/${result.gestures.length}, Max touches: ${
+      result.maxSimultaneousTouches
+    }, Overall score: ${result.overallScore}%`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: [
+      ...createKeyValues({
+        multi_touch_supported: result.multiTouchSupported,
+        max_simultaneous_touches: result.maxSimultaneousTouches,
+        overall_score: result.overallScore,
+      }),
+      ...result.gestures.flatMap((gesture) => {
+        const key = gesture.gesture.replace(/-/g, "_");
+        return createKeyValues({
+          [`${key}_completed`]: gesture.completed,
+          [`${key}_score`]: gesture.score,
+          [`${key}_scale`]: gesture.scale.toFixed(3),
+          [`${key}_rotation_deg`]: gesture.rotation.toFixed(1),
+          [`${key}_translation_px`]: Math.hypot(
+            gesture.translation.x,
+            gesture.translation.y
+          ).toFixed(1),
+          [`${key}_continuity_percent`]: gesture.continuity.toFixed(0),
+          [`${key}_dropped_identifiers`]: gesture.droppedIdentifiers.length,
+        });
+      }),
+    ],
+  };
+}
+
+export function swipeLinearityToDiagnosticStatus(
+  result: SwipeLinearityResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  return {
+    level: levelFromChecks(
+      result.swipes.every((swipe) => swipePassed(swipe, thresholds)),
+      result.overallScore
+    ),
+    name: "swipe_linearity_test",
+    message: `Swipe linearity test completed. ${result.swipes
+      .map(
+        (swipe) =>
+          `${swipe.direction}: ${swipe.maxDeviationMm.toFixed(
+            1
+          )}mm max deviation at ${swipe.reportRate.toFixed(0)}Hz`
+      )
+      .join(", ")}, Overall score: ${result.overallScore}%`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: [
+      ...createKeyValues({
+        overall_score: result.overallScore,
+        px_per_mm: result.pxPerMm.toFixed(3),
+      }),
+      ...result.swipes.flatMap((swipe) =>
+        createKeyValues({
+          [`${swipe.direction}_accuracy`]: swipe.accuracy,
+          [`${swipe.direction}_coverage_percent`]: swipe.coverage.toFixed(0),
+          [`${swipe.direction}_max_deviation_px`]:
+            swipe.maxDeviation.toFixed(1),
+          [`${swipe.direction}_max_deviation_mm`]:
+            swipe.maxDeviationMm.toFixed(2),
+          [`${swipe.direction}_report_rate_hz`]: swipe.reportRate.toFixed(1),
+          [`${swipe.direction}_dropped_samples`]: swipe.droppedSamples,
+          [`${swipe.direction}_max_gap_ms`]: swipe.maxGap.toFixed(1),
+          // px/s over ten equal stretches of the line
+          [`${swipe.direction}_speed_profile`]: JSON.stringify(
+            swipe.speedProfile.map((speed) => Math.round(speed))
+          ),
+        })
+      ),
+    ],
+  };
+}
+
+export function tapAccuracyToDiagnosticStatus(
+  result: TapAccuracyResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  return {
+    level:
+      result.hits === 0
+        ? DiagnosticLevel.ERROR
+        : result.missed === 0 &&
+          result.meanErrorMm <= thresholds.maxMeanErrorMm &&
+          tapBiasMm(result) <= thresholds.maxBiasMm
+        ? DiagnosticLevel.OK
+        : DiagnosticLevel.WARN,
+    name: "tap_accuracy_test",
+    message: `Tap accuracy test completed. Mean error: ${result.meanErrorMm.toFixed(
+      2
+    )}mm, Bias: (${result.bias.xMm.toFixed(2)}, ${result.bias.yMm.toFixed(
+      2
+    )})mm, Missed: ${result.missed}/${result.attempts.length}`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: createKeyValues({
+      targets: result.attempts.length,
+      hits: result.hits,
+      missed: result.missed,
+      mean_error_px: result.meanError.toFixed(2),
+      mean_error_mm: result.meanErrorMm.toFixed(2),
+      max_error_mm: result.maxErrorMm.toFixed(2),
+      bias_x_mm: result.bias.xMm.toFixed(2),
+      bias_y_mm: result.bias.yMm.toFixed(2),
+      // [[target_x_px, target_y_px, offset_x_px, offset_y_px], ...], with
+      // null offsets for missed targets
+      offsets_px: JSON.stringify(
+        result.attempts.map(({ target, touch, offsetX, offsetY }) => [
+          target.x,
+          target.y,
+          touch ? Number(offsetX.toFixed(1)) : null,
+          touch ? Number(offsetY.toFixed(1)) : null,
+        ])
+      ),
+      viewport_px: `${result.viewport.width}x${result.viewport.height}`,
+      px_per_mm: result.pxPerMm.toFixed(3),
+      test_duration_ms: result.testDuration,
+    }),
+  };
+}
+
+export function ghostTouchToDiagnosticStatus(
+  result: GhostTouchResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  const ghosts = [...result.idleTouches, ...result.ghostTouches];
+
+  return {
+    level:
+      ghosts.length <= thresholds.maxGhostTouches
+        ? DiagnosticLevel.OK
+        : DiagnosticLevel.ERROR,
+    name: "ghost_touch_test",
+    message: `Ghost touch test completed. Idle touches: ${result.idleTouches.length}, Off-target touches: ${result.ghostTouches.length}`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: createKeyValues({
+      idle_duration_ms: result.idleDuration,
+      idle_touches: result.idleTouches.length,
+      off_target_touches: result.ghostTouches.length,
+      targets_hit: result.targetsHit,
+      target_count: result.targetCount,
+      // [[x_px, y_px, start_ms, duration_ms], ...] for every flagged touch
+      ghost_touches: JSON.stringify(
+        ghosts.map(({ x, y, startTime, duration }) => [
+          Math.round(x),
+          Math.round(y),
+          startTime,
+          duration,
+        ])
+      ),
+      viewport_px: `${result.viewport.width}x${result.viewport.height}`,
+      test_duration_ms: result.testDuration,
+    }),
+  };
+}
+
+function displayDefectLevel(
+  result: DisplayDefectResult,
+  thresholds: TestThresholds
+) {
+  if (!result.testCompleted || result.analyzedPatterns === 0) {
+    return DiagnosticLevel.ERROR;
+  }
+  const withinLimits =
+    result.analyzedPatterns === result.patterns.length &&
+    result.deadPixels.length <= thresholds.maxDeadPixels &&
+    (result.maxUniformityDeviation ?? 0) <= thresholds.maxUniformityDeviation &&
+    (result.maxDeltaE ?? 0) <= thresholds.maxDeltaE;
+  return withinLimits ? DiagnosticLevel.OK : DiagnosticLevel.WARN;
+}
+
+export function displayDefectToDiagnosticStatus(
+  result: DisplayDefectResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  const uniformity =
+    result.maxUniformityDeviation === null
+      ? "n/a"
+      : `${result.maxUniformityDeviation.toFixed(1)}%`;
+  const deltaE =
+    result.maxDeltaE === null ? "n/a" : result.maxDeltaE.toFixed(2);
+
+  return {
+    level: displayDefectLevel(result, thresholds),
+    name: "display_defect_test",
+    message: `Display defect test completed. Analysed: ${
+      result.analyzedPatterns
+    }/${result.patterns.length} patterns, Dead pixels: ${
+      result.deadPixels.length
+    }, Uniformity deviation: ${uniformity}, Delta-E: ${deltaE}`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: createKeyValues({
+      session_id: result.sessionId,
+      test_completed: result.testCompleted,
+      duration_ms: result.duration,
+      timestamp: result.timestamp,
+      analyzed_patterns: result.analyzedPatterns,
+      dead_pixel_count: result.deadPixels.length,
+      // [[x, y], ...] in device pixels
+      dead_pixels: JSON.stringify(result.deadPixels.map(({ x, y }) => [x, y])),
+      max_uniformity_deviation: result.maxUniformityDeviation ?? "",
+      max_delta_e: result.maxDeltaE ?? "",
+      // [{"pattern": "white", "presented_at": 1718000000000.25,
+      //   "duration": 7003, "captured": true, "dead_pixels": 1,
+      //   "uniformity_deviation": 3.2, "delta_e": 1.1}, ...] in display
+      // order; the analysis fields are left out when the robot sent none
+      patterns: JSON.stringify(
+        result.patterns.map((shown) => ({
+          pattern: shown.pattern,
+          presented_at: shown.presentedAt,
+          duration: Math.round(shown.duration),
+          captured: shown.captured,
+          dead_pixels: shown.analysis?.deadPixels.length,
+          uniformity_deviation: shown.analysis?.uniformityDeviation,
+          delta_e: shown.analysis?.deltaE,
+        }))
+      ),
+    }),
+  };
+}
+
+export function proximitySensorToDiagnosticStatus(
+  result: ProximitySensorResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  return {
+    level: !result.success
+      ? DiagnosticLevel.ERROR
+      : result.activationTime <= thresholds.maxActivationTimeMs
+      ? DiagnosticLevel.OK
+      : DiagnosticLevel.WARN,
+    name: "proximity_sensor_test",
+    message: `Proximity sensor test completed. Success: ${result.success}, Activation time: ${result.activationTime}ms`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: createKeyValues({
+      sensor_activated: result.sensorActivated,
+      activation_time_ms: result.activationTime,
+      test_duration_ms: result.testDuration,
+      success: result.success,
+    }),
+  };
+}
+
+/** One status per planned test with a result, judged by its plan thresholds. */
+export function testSuiteToDiagnosticArray(
+  results: TestSuiteResult,
+  tests: PlannedTest[],
+  version: RosVersion = DEFAULT_ROS_VERSION
+): DiagnosticArray {
+  const status = tests.flatMap(({ plugin, thresholds }) => {
+    const result = results[plugin.resultKey];
+    return plugin.isResult(result)
+      ? [plugin.toDiagnosticStatus(result, thresholds)]
+      : [];
+  });
+
+  return createDiagnosticArray(status, undefined, version);
+}
+
+export function curveTracingToDiagnosticStatus(
+  result: CurveTracingResult,
+  thresholds: TestThresholds
+): DiagnosticStatus {
+  return {
+    level: levelFromChecks(
+      result.tracings.every((tracing) => tracingPassed(tracing, thresholds)),
+      result.overallScore
+    ),
+    name: "curve_tracing_test",
+    message: `Curve tracing test completed. ${result.tracings
+      .map((tracing) => `${tracing.shape}: ${tracing.accuracy}%`)
+      .join(", ")}, Overall score: ${result.overallScore}%`,
+    hardware_id: SUITE_HARDWARE_ID,
+    values: [
+      ...createKeyValues({ overall_score: result.overallScore }),
+      ...result.tracings.flatMap((tracing, index) => [
+        ...createKeyValues({
+          [`shape_${index}`]: tracing.shape,
+          [`shape_${index}_completion_time_ms`]: tracing.completionTime,
+          [`shape_${index}_trace_points`]: tracing.tracePoints.length,
+        }),
+        ...tracingKeyValues(`shape_${index}`, tracing),
+      ]),
+    ],
+  };
+}
@@ -0,0 +1,118 @@
+import QRCode from "qrcode";
+
+// Alignment frame shown before each display pattern: an ArUco marker in each
+// corner, from which the robot computes the screen's homography, and a QR
+// code in the middle that ties the following capture to a test session.
+
+// ArUco original dictionary (DICT_ARUCO_ORIGINAL): each of the five rows of
+// a marker encodes two bits of its id as one of these 5-bit words.
+const ARUCO_WORDS = [0x10, 0x17, 0x09, 0x0e];
+// Data cells plus the black border on each side
+const ARUCO_CELLS = 7;
+
+/** Marker ids at the top-left, top-right, bottom-right and bottom-left. */
+export const CORNER_MARKER_IDS = [0, 1, 2, 3];
+
+// Marker side as a share of the shorter screen side
+const MARKER_SHARE = 0.2;
+const QR_SHARE = 0.45;
+// White modules the QR code needs around it to be found
+const QR_QUIET_ZONE = 4;
+
+export interface FiducialPayload {
+  session_id: string;
+  pattern: string;
+  index: number;
+}
+
+/** Short id for a run, unique enough to tell captures of runs apart. */
+export function createSessionId() {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${Date.now().toString(36)}-${random}`;
+}
+
+/** The 7×7 cells of ArUco marker `id`, true where the cell is white. */
+export function arucoCells(id: number): boolean[][] {
+  if (!Number.isInteger(id) || id < 0 || id > 1023) {
+    throw new Error(`ArUco marker id out of range: ${id}`);
+  }
+
+  const last = ARUCO_CELLS - 1;
+  return Array.from({ length: ARUCO_CELLS }, (_, y) =>
+    Array.from({ length: ARUCO_CELLS }, (_, x) => {
+      if (y === 0 || x === 0 || y === last || x === last) return false;
+      const word = ARUCO_WORDS[(id >> (2 * (5 - y))) & 0x3];
+      return ((word >> (5 - x)) & 0x1) === 1;
+    })
+  );
+}
+
+function drawCells(
+  ctx: CanvasRenderingContext2D,
+  cells: boolean[][],
+  left: number,
+  top: number,
+  cellSize: number
+) {
+  cells.forEach((row, y) =>
+    row.forEach((white, x) => {
+      ctx.fillStyle = white ? "white" : "black";
+      ctx.fillRect(left + x * cellSize, top + y * cellSize, cellSize, cellSize);
+    })
+  );
+}
+
+/**
+ * Paints the alignment frame in device pixels. Cells and QR modules are
+ * whole pixels so the camera sees sharp edges at any devicePixelRatio.
+ */
+export function drawFiducials(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  payload: FiducialPayload
+) {
+  const shortSide = Math.min(width, height);
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, width, height);
+
+  // One white cell between each marker and the screen edge
+  const cellSize = Math.max(
+    1,
+    Math.floor((shortSide * MARKER_SHARE) / ARUCO_CELLS)
+  );
+  const markerSize = cellSize * ARUCO_CELLS;
+  const corners = [
+    [cellSize, cellSize],
+    [width - cellSize - markerSize, cellSize],
+    [width - cellSize - markerSize, height - cellSize - markerSize],
+    [cellSize, height - cellSize - markerSize],
+  ];
+  corners.forEach(([left, top], corner) =>
+    drawCells(ctx, arucoCells(CORNER_MARKER_IDS[corner]), left, top, cellSize)
+  );
+
+  const { modules } = QRCode.create(JSON.stringify(payload), {
+    errorCorrectionLevel: "M",
+  });
+  const moduleSize = Math.max(
+    1,
+    Math.floor((shortSide * QR_SHARE) / (modules.size + 2 * QR_QUIET_ZONE))
+  );
+  const qrSize = moduleSize * modules.size;
+  const left = Math.round((width - qrSize) / 2);
+  const top = Math.round((height - qrSize) / 2);
+  ctx.fillStyle = "black";
+  for (let row = 0; row < modules.size; row++) {
+    for (let column = 0; column < modules.size; column++) {
+      if (modules.get(row, column)) {
+        ctx.fillRect(
+          left + column * moduleSize,
+          top + row * moduleSize,
+          moduleSize,
+          moduleSize
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import {
+  DisplayDefectResult,
+  DisplayPatternAnalysis,
+  DisplayPatternResult,
+  DisplayPixel,
+} from "./test-results";
+
+// Full-screen patterns for the robot camera. Each paints itself in device
+// pixels, so grids and checkerboards land on whole pixels at any
+// devicePixelRatio.
+
+// Every pattern change is announced on DISPLAY_PATTERN_TOPIC (std_msgs/String)
+// as a JSON-encoded DisplayPatternMessage, stamped once the frame showing it
+// has been presented. When the plan sets a capture timeout, the phone holds
+// each pattern until the robot publishes the pattern id (or
+// {"pattern": id, "index": n}) on DISPLAY_CAPTURED_TOPIC.
+export const DISPLAY_PATTERN_TOPIC = "/display_pattern";
+export const DISPLAY_CAPTURED_TOPIC = "/display_pattern_captured";
+// The robot's verdict for each pattern comes back on DISPLAY_ANALYSIS_TOPIC
+// as a JSON-encoded DisplayAnalysisMessage.
+export const DISPLAY_ANALYSIS_TOPIC = "/display_pattern_analysis";
+
+export interface DisplayPatternMessage {
+  /** Run id, also carried by the QR code of the alignment frame. */
+  session_id: string;
+  pattern: string;
+  index: number;
+  count: number;
+  /** Epoch ms, sub-millisecond, of the frame the pattern first appeared in. */
+  presented_at: number;
+  /** Minimum hold in ms; with `await_capture` the phone also awaits an ack. */
+  duration_ms: number;
+  await_capture: boolean;
+  viewport_px: { width: number; height: number };
+  device_pixel_ratio: number;
+}
+
+export interface DisplayCaptureAck {
+  pattern: string;
+  index?: number;
+}
+
+export interface DisplayAnalysisMessage {
+  pattern: string;
+  /** Step index from DisplayPatternMessage; the latest showing otherwise. */
+  index?: number;
+  dead_pixels?: Array<{ x: number; y: number }>;
+  uniformity_deviation?: number;
+  delta_e?: number;
+}
+
+export interface DisplayAnalysis extends DisplayPatternAnalysis {
+  pattern: string;
+  index?: number;
+}
+
+export interface DisplayPattern {
+  id: string;
+  title: string;
+  /** What the camera should look for while the pattern is up. */
+  purpose: string;
+  draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+}
+
+export interface DisplayPatternStep {
+  pattern: DisplayPattern;
+  /** How long the pattern is held, in ms. */
+  duration: number;
+  /** Shown straight after the previous step, with no alignment frame. */
+  followsDirectly?: boolean;
+}
+
+// Squares along the shorter side of the screen
+const CHECKERBOARD_CELLS = 8;
+const BURN_IN_CELLS = 4;
+const GRID_SPACING = 16;
+// Grey shown after the burn-in image, long enough to photograph any ghost
+const BURN_IN_CHECK_DURATION = 5000;
+
+function solid(id: string, title: string, color: string, purpose: string) {
+  return {
+    id,
+    title,
+    purpose,
+    draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(0, 0, width, height);
+    },
+  };
+}
+
+function gray(level: number): DisplayPattern {
+  const value = Math.round((level / 100) * 255);
+  return solid(
+    `gray-${level}`,
+    `${level}% Grey`,
+    `rgb(${value}, ${value}, ${value})`,
+    "Brightness uniformity and mura"
+  );
+}
+
+function gradient(id: string, title: string, vertical: boolean) {
+  return {
+    id,
+    title,
+    purpose: "Banding and posterization",
+    draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+      const fill = ctx.createLinearGradient(
+        0,
+        0,
+        vertical ? 0 : width,
+        vertical ? height : 0
+      );
+      fill.addColorStop(0, "black");
+      fill.addColorStop(1, "white");
+      ctx.fillStyle = fill;
+      ctx.fillRect(0, 0, width, height);
+    },
+  };
+}
+
+function drawCheckerboard(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  cells: number
+) {
+  const size = Math.ceil(Math.min(width, height) / cells);
+  ctx.fillStyle = "black";
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = "white";
+  for (let y = 0; y * size < height; y++) {
+    for (let x = y % 2; x * size < width; x += 2) {
+      ctx.fillRect(x * size, y * size, size, size);
+    }
+  }
+}
+
+const BURN_IN_CHECK: DisplayPattern = {
+  ...gray(50),
+  id: "burn-in-check",
+  title: "Burn-in Check",
+  purpose: "Ghost of the previous burn-in image",
+};
+
+const PATTERNS: DisplayPattern[] = [
+  solid("red", "Red", "rgb(255, 0, 0)", "Red subpixel defects"),
+  solid("green", "Green", "rgb(0, 255, 0)", "Green subpixel defects"),
+  solid("blue", "Blue", "rgb(0, 0, 255)", "Blue subpixel defects"),
+  solid("black", "Black", "rgb(0, 0, 0)", "Stuck (lit) pixels and bleed"),
+  solid("white", "White", "rgb(255, 255, 255)", "Dead (dark) pixels"),
+  gray(25),
+  gray(50),
+  gray(75),
+  gradient("gradient-horizontal", "Horizontal Gradient", false),
+  gradient("gradient-vertical", "Vertical Gradient", true),
+  {
+    id: "checkerboard",
+    title: "Checkerboard",
+    purpose: "Crosstalk between neighbouring regions",
+    draw: (ctx, width, height) =>
+      drawCheckerboard(ctx, width, height, CHECKERBOARD_CELLS),
+  },
+  {
+    id: "grid",
+    title: "Line Grid",
+    purpose: "Line defects and pixel alignment",
+    draw: (ctx, width, height) => {
+      ctx.fillStyle = "black";
+      ctx.fillRect(0, 0, width, height);
+      ctx.fillStyle = "white";
+      for (let x = 0; x < width; x += GRID_SPACING) {
+        ctx.fillRect(x, 0, 1, height);
+      }
+      for (let y = 0; y < height; y += GRID_SPACING) {
+        ctx.fillRect(0, y, width, 1);
+      }
+    },
+  },
+  {
+    id: "burn-in",
+    title: "Burn-in",
+    purpose: "High-contrast image held before the burn-in check",
+    draw: (ctx, width, height) =>
+      drawCheckerboard(ctx, width, height, BURN_IN_CELLS),
+  },
+];
+
+export const DISPLAY_PATTERNS: Record<string, DisplayPattern> =
+  Object.fromEntries(PATTERNS.map((pattern) => [pattern.id, pattern]));
+
+export const DEFAULT_DISPLAY_PATTERNS = ["red", "green", "blue"];
+
+function findPattern(id: string): DisplayPattern {
+  const grayLevel = /^gray-(\d{1,3})$/.exec(id);
+  if (grayLevel && Number(grayLevel[1]) <= 100) {
+    return gray(Number(grayLevel[1]));
+  }
+  if (id in DISPLAY_PATTERNS) return DISPLAY_PATTERNS[id];
+  throw new Error(`Unknown display pattern "${id}"`);
+}
+
+/**
+ * Resolves a test plan entry such as "checkerboard" or "black:10000" (id and
+ * duration in ms) into the steps to show. Any `gray-<percent>` level is
+ * accepted, and "burn-in" is followed by a grey burn-in check.
+ */
+export function resolveDisplayPattern(
+  entry: string,
+  defaultDuration: number
+): DisplayPatternStep[] {
+  const [id, durationText] = entry.trim().split(":");
+  const duration =
+    durationText === undefined ? defaultDuration : Number(durationText);
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error(`Invalid duration in display pattern "${entry}"`);
+  }
+
+  const pattern = findPattern(id.trim());
+  return pattern.id === "burn-in"
+    ? [
+        { pattern, duration },
+        {
+          pattern: BURN_IN_CHECK,
+          duration: BURN_IN_CHECK_DURATION,
+          followsDirectly: true,
+        },
+      ]
+    : [{ pattern, duration }];
+}
+
+export function createDisplayPatternMessage(
+  step: DisplayPatternStep,
+  index: number,
+  count: number,
+  presentedAt: number,
+  awaitCapture: boolean,
+  sessionId: string
+) {
+  const message: DisplayPatternMessage = {
+    session_id: sessionId,
+    pattern: step.pattern.id,
+    index,
+    count,
+    presented_at: presentedAt,
+    duration_ms: step.duration,
+    await_capture: awaitCapture,
+    viewport_px: { width: window.innerWidth, height: window.innerHeight },
+    device_pixel_ratio: window.devicePixelRatio,
+  };
+  return { data: JSON.stringify(message) };
+}
+
+export function parseDisplayCaptureAck(data: string): DisplayCaptureAck | null {
+  const text = data.trim();
+  if (!text.startsWith("{")) return text ? { pattern: text } : null;
+
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed.pattern !== "string") return null;
+    return {
+      pattern: parsed.pattern,
+      index: typeof parsed.index === "number" ? parsed.index : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function parseDisplayAnalysis(data: string): DisplayAnalysis | null {
+  let message: Partial<DisplayAnalysisMessage>;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (typeof message?.pattern !== "string") return null;
+
+  const deadPixels = Array.isArray(message.dead_pixels)
+    ? message.dead_pixels.filter(
+        (pixel) => isFiniteNumber(pixel?.x) && isFiniteNumber(pixel?.y)
+      )
+    : [];
+  return {
+    pattern: message.pattern,
+    index: isFiniteNumber(message.index) ? message.index : undefined,
+    deadPixels: deadPixels.map(({ x, y }) => ({ x, y })),
+    uniformityDeviation: isFiniteNumber(message.uniformity_deviation)
+      ? message.uniformity_deviation
+      : undefined,
+    deltaE: isFiniteNumber(message.delta_e) ? message.delta_e : undefined,
+  };
+}
+
+function worst(values: Array<number | undefined>): number | null {
+  const reported = values.filter(isFiniteNumber);
+  return reported.length > 0 ? Math.max(...reported) : null;
+}
+
+/** Rolls the per-pattern analyses up into the test result. */
+export function summarizeDisplayDefect(
+  patterns: DisplayPatternResult[],
+  testCompleted: boolean,
+  duration: number,
+  sessionId: string
+): DisplayDefectResult {
+  const analyses = patterns.flatMap((shown) =>
+    shown.analysis ? [shown.analysis] : []
+  );
+
+  // A pixel that is dead on several patterns is still one dead pixel
+  const deadPixels = new Map<string, DisplayPixel>();
+  for (const pixel of analyses.flatMap((analysis) => analysis.deadPixels)) {
+    deadPixels.set(`${pixel.x},${pixel.y}`, pixel);
+  }
+
+  return {
+    sessionId,
+    testCompleted,
+    duration,
+    timestamp: Date.now(),
+    patterns,
+    analyzedPatterns: analyses.length,
+    deadPixels: Array.from(deadPixels.values()),
+    maxUniformityDeviation: worst(
+      analyses.map((analysis) => analysis.uniformityDeviation)
+    ),
+    maxDeltaE: worst(analyses.map((analysis) => analysis.deltaE)),
+  };
+}
@@ -0,0 +1,233 @@
+import { GestureKind, GesturePath, GestureResult } from "./test-results";
+
+export interface GestureSpec {
+  gesture: GestureKind;
+  title: string;
+  instruction: string;
+  fingers: number;
+}
+
+export const GESTURES: GestureSpec[] = [
+  {
+    gesture: "pinch-in",
+    title: "Pinch In",
+    instruction: "Place two fingers apart and pinch them together",
+    fingers: 2,
+  },
+  {
+    gesture: "pinch-out",
+    title: "Pinch Out",
+    instruction: "Place two fingers together and spread them apart",
+    fingers: 2,
+  },
+  {
+    gesture: "rotate",
+    title: "Rotate",
+    instruction: "Place two fingers down and twist them a quarter turn",
+    fingers: 2,
+  },
+  {
+    gesture: "two-finger-swipe",
+    title: "Two-Finger Swipe",
+    instruction: "Swipe across the screen with two fingers",
+    fingers: 2,
+  },
+  {
+    gesture: "three-finger-swipe",
+    title: "Three-Finger Swipe",
+    instruction: "Swipe across the screen with three fingers",
+    fingers: 3,
+  },
+];
+
+// What a gesture has to achieve to count as completed
+const PINCH_SCALE_CHANGE = 0.3;
+const MIN_ROTATION_DEG = 45;
+const MIN_SWIPE_FRACTION = 0.25; // of the shorter viewport side
+
+// A finger that vanished while the others kept moving this far was lost by
+// the digitizer rather than lifted at the end of the gesture
+const DROP_TRAVEL_PX = 10;
+
+export interface GestureTouch {
+  id: number;
+  x: number;
+  y: number;
+}
+
+/** Every touch on the screen after one touch event. */
+export interface GestureFrame {
+  timestamp: number;
+  touches: GestureTouch[];
+}
+
+function centroid(touches: GestureTouch[]) {
+  return {
+    x: touches.reduce((sum, touch) => sum + touch.x, 0) / touches.length,
+    y: touches.reduce((sum, touch) => sum + touch.y, 0) / touches.length,
+  };
+}
+
+function find(frame: GestureFrame, id: number) {
+  return frame.touches.find((touch) => touch.id === id);
+}
+
+// Fold an angle difference into (-180, 180] so a turn across the ±180°
+// boundary doesn't read as a full revolution
+function angleDelta(from: number, to: number) {
+  let delta = to - from;
+  while (delta > 180) delta -= 360;
+  while (delta <= -180) delta += 360;
+  return delta;
+}
+
+function gestureProgress(
+  spec: GestureSpec,
+  scale: number,
+  rotation: number,
+  translation: { x: number; y: number },
+  viewport: { width: number; height: number }
+) {
+  switch (spec.gesture) {
+    case "pinch-in":
+      return (1 - scale) / PINCH_SCALE_CHANGE;
+    case "pinch-out":
+      return (scale - 1) / PINCH_SCALE_CHANGE;
+    case "rotate":
+      return Math.abs(rotation) / MIN_ROTATION_DEG;
+    case "two-finger-swipe":
+    case "three-finger-swipe":
+      return (
+        Math.hypot(translation.x, translation.y) /
+        (MIN_SWIPE_FRACTION * Math.min(viewport.width, viewport.height))
+      );
+  }
+}
+
+export function createEmptyGestureResult(spec: GestureSpec): GestureResult {
+  return {
+    gesture: spec.gesture,
+    fingers: spec.fingers,
+    completed: false,
+    scale: 1,
+    rotation: 0,
+    translation: { x: 0, y: 0 },
+    continuity: 0,
+    droppedIdentifiers: [],
+    duration: 0,
+    paths: [],
+    score: 0,
+  };
+}
+
+/**
+ * Scores one attempt at a gesture. The gesture's fingers are the first
+ * `spec.fingers` identifiers down once enough fingers are on the screen;
+ * scale and rotation follow the first two of them for as long as both are
+ * tracked, and a finger reported cancelled or lost mid-gesture is dropped.
+ */
+export function analyzeGesture(
+  spec: GestureSpec,
+  frames: GestureFrame[],
+  cancelledIds: Set<number>,
+  viewport: { width: number; height: number }
+): GestureResult {
+  const startIndex = frames.findIndex(
+    (frame) => frame.touches.length >= spec.fingers
+  );
+  if (startIndex === -1) return createEmptyGestureResult(spec);
+
+  const startFrame = frames[startIndex];
+  const fingerIds = startFrame.touches
+    .slice(0, spec.fingers)
+    .map((touch) => touch.id);
+  const gestureFrames = frames.slice(startIndex);
+
+  const paths: GesturePath[] = fingerIds.map((id) => ({
+    id,
+    points: gestureFrames.flatMap((frame) => {
+      const touch = find(frame, id);
+      return touch
+        ? [{ x: touch.x, y: touch.y, timestamp: frame.timestamp }]
+        : [];
+    }),
+  }));
+
+  const droppedIdentifiers = fingerIds.filter((id) => {
+    if (cancelledIds.has(id)) return true;
+
+    const gone = gestureFrames.find((frame) => !find(frame, id));
+    if (!gone) return false;
+
+    // Did the remaining fingers carry on without it?
+    return paths.some((path) => {
+      const atGone = find(gone, path.id);
+      const end = path.points[path.points.length - 1];
+      return (
+        atGone !== undefined &&
+        Math.hypot(end.x - atGone.x, end.y - atGone.y) > DROP_TRAVEL_PX
+      );
+    });
+  });
+
+  // Scale and rotation from the first two fingers while both are tracked
+  let scale = 1;
+  let rotation = 0;
+  if (fingerIds.length >= 2) {
+    const [a, b] = fingerIds;
+    const pairFrames: Array<[GestureTouch, GestureTouch]> = [];
+    for (const frame of gestureFrames) {
+      const first = find(frame, a);
+      const second = find(frame, b);
+      if (!first || !second) break;
+      pairFrames.push([first, second]);
+    }
+
+    const spread = ([first, second]: [GestureTouch, GestureTouch]) =>
+      Math.hypot(second.x - first.x, second.y - first.y);
+    const angle = ([first, second]: [GestureTouch, GestureTouch]) =>
+      (Math.atan2(second.y - first.y, second.x - first.x) * 180) / Math.PI;
+
+    const startSpread = spread(pairFrames[0]);
+    if (startSpread > 0) {
+      scale = spread(pairFrames[pairFrames.length - 1]) / startSpread;
+    }
+    for (let i = 1; i < pairFrames.length; i++) {
+      rotation += angleDelta(angle(pairFrames[i - 1]), angle(pairFrames[i]));
+    }
+  }
+
+  const translation = centroid(
+    paths.map(({ id, points }) => ({
+      id,
+      x: points[points.length - 1].x - points[0].x,
+      y: points[points.length - 1].y - points[0].y,
+    }))
+  );
+
+  const continuity =
+    ((fingerIds.length - droppedIdentifiers.length) / fingerIds.length) * 100;
+  const progress = gestureProgress(
+    spec,
+    scale,
+    rotation,
+    translation,
+    viewport
+  );
+  const achievement = Math.min(1, Math.max(0, progress)) * 100;
+
+  return {
+    gesture: spec.gesture,
+    fingers: spec.fingers,
+    completed: progress >= 1 && droppedIdentifiers.length === 0,
+    scale,
+    rotation,
+    translation,
+    continuity,
+    droppedIdentifiers,
+    duration:
+      gestureFrames[gestureFrames.length - 1].timestamp - startFrame.timestamp,
+    paths,
+    score: Math.round(achievement * 0.6 + continuity * 0.4),
+  };
+}
@@ -0,0 +1,75 @@
+// Robot <-> phone test orchestration protocol.
+//
+// The robot sends plain-text commands on ROBOT_COMMAND_TOPIC (std_msgs/String):
+//   "start"              start the suite from the first step
+//   "start <stepId>"     start, or jump, to a step, e.g. "start display"
+//   "skip"               finish the current step (or robot wait) and move on
+//   "abort"              stop the suite and discard its results
+//   "query"              ask the phone to re-announce its current status
+// A JSON body such as {"command": "start", "step": "display"} is accepted too.
+//
+// The phone announces every transition on PHONE_STATUS_TOPIC (std_msgs/String)
+// as a JSON-encoded SuiteStatus.
+
+export const ROBOT_COMMAND_TOPIC = "/robot_test_command";
+export const PHONE_STATUS_TOPIC = "/phone_test_status";
+export const STRING_MESSAGE_TYPE = "std_msgs/String";
+
+export type SuiteState =
+  | "ready"
+  | "running"
+  | "paused"
+  | "waiting"
+  | "completed"
+  | "aborted";
+
+export type RobotCommand =
+  | { command: "start"; step?: string }
+  | { command: "skip" }
+  | { command: "abort" }
+  | { command: "query" };
+
+export interface SuiteStatus {
+  state: SuiteState;
+  step: string | null;
+  stepIndex: number;
+  stepCount: number;
+  /** Test the robot is expected to confirm while `state` is "waiting". */
+  waitingFor: string | null;
+  timestamp: number;
+}
+
+export function parseRobotCommand(data: string): RobotCommand | null {
+  const text = data.trim();
+  let command: string | undefined;
+  let step: string | undefined;
+
+  if (text.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(text);
+      command = typeof parsed.command === "string" ? parsed.command : undefined;
+      step = typeof parsed.step === "string" ? parsed.step : undefined;
+    } catch {
+      return null;
+    }
+  } else {
+    [command, step] = text.split(/\s+/);
+  }
+
+  switch (command?.toLowerCase()) {
+    case "start":
+      return { command: "start", step: step || undefined };
+    case "skip":
+      return { command: "skip" };
+    case "abort":
+      return { command: "abort" };
+    case "query":
+      return { command: "query" };
+    default:
+      return null;
+  }
+}
+
+export function createStatusMessage(status: SuiteStatus) {
+  return { data: JSON.stringify(status) };
+}
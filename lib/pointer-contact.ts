@@ -0,0 +1,58 @@
+import { ForceDistribution, PointerContact } from "./test-results";
+import { computeLatencyStats } from "./touch-latency";
+
+const HISTOGRAM_BINS = 10;
+
+// Hardware without pressure sensing reports 0.5 while a contact is down
+// (0 on some browsers), so a run made of only these carries no force data
+const PLACEHOLDER_PRESSURES = [0, 0.5];
+
+export function readPointerContact(
+  event: PointerEvent | React.PointerEvent
+): PointerContact {
+  return {
+    pointerType: event.pointerType,
+    pressure: event.pressure,
+    tiltX: event.tiltX,
+    tiltY: event.tiltY,
+    twist: event.twist,
+    width: event.width,
+    height: event.height,
+  };
+}
+
+export function summarizeForce(contacts: PointerContact[]): ForceDistribution {
+  const pressures = contacts.map((contact) => contact.pressure);
+  const { samples, mean, p50, p95, max } = computeLatencyStats(pressures);
+
+  const histogram = Array<number>(HISTOGRAM_BINS).fill(0);
+  pressures.forEach((pressure) => {
+    const bin = Math.floor(pressure * HISTOGRAM_BINS);
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.max(0, bin))]++;
+  });
+
+  const pointerTypes: Record<string, number> = {};
+  contacts.forEach(({ pointerType }) => {
+    pointerTypes[pointerType] = (pointerTypes[pointerType] ?? 0) + 1;
+  });
+
+  const meanOf = (values: number[]) =>
+    values.length === 0
+      ? 0
+      : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return {
+    samples,
+    pointerTypes,
+    pressureReported: pressures.some(
+      (pressure) => !PLACEHOLDER_PRESSURES.includes(pressure)
+    ),
+    mean,
+    p50,
+    p95,
+    max,
+    histogram,
+    meanContactWidth: meanOf(contacts.map((contact) => contact.width)),
+    meanContactHeight: meanOf(contacts.map((contact) => contact.height)),
+  };
+}
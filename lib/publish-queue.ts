@@ -0,0 +1,97 @@
+export type DeliveryStatus = "queued" | "sent" | "failed";
+
+export interface QueuedMessage {
+  id: string;
+  topicName: string;
+  messageType: string;
+  message: unknown;
+  createdAt: number;
+  attempts: number;
+  status: DeliveryStatus;
+}
+
+const DB_NAME = "robothon-diagnostics";
+const DB_VERSION = 1;
+const STORE_NAME = "outbound-messages";
+
+// Writes are chained so a removal can never overtake the save it follows
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+export function createQueuedMessage(
+  topicName: string,
+  messageType: string,
+  message: unknown
+): QueuedMessage {
+  const createdAt = Date.now();
+
+  return {
+    // crypto.randomUUID is unavailable on plain-http LAN origins
+    id: `${createdAt}-${Math.random().toString(36).slice(2, 10)}`,
+    topicName,
+    messageType,
+    message,
+    createdAt,
+    attempts: 0,
+    status: "queued",
+  };
+}
+
+export async function loadQueuedMessages(): Promise<QueuedMessage[]> {
+  const db = await openQueueDb();
+  if (!db) return [];
+
+  const messages = await runRequest<QueuedMessage[]>(
+    db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).getAll()
+  );
+  db.close();
+
+  return messages.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function saveQueuedMessage(message: QueuedMessage) {
+  return writeToStore((store) => store.put(message));
+}
+
+export function removeQueuedMessage(id: string) {
+  return writeToStore((store) => store.delete(id));
+}
+
+function writeToStore(write: (store: IDBObjectStore) => IDBRequest) {
+  const operation = pendingWrite.then(async () => {
+    const db = await openQueueDb();
+    if (!db) return;
+
+    await runRequest(
+      write(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME))
+    );
+    db.close();
+  });
+  pendingWrite = operation.catch(() => undefined);
+
+  return operation;
+}
+
+async function openQueueDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return null;
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    }
+  };
+
+  try {
+    return await runRequest(request);
+  } catch (error) {
+    console.error("Error opening publish queue database:", error);
+    return null;
+  }
+}
+
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,116 @@
+import * as ROSLIB from "roslib";
+
+export type RosVersion = 1 | 2;
+export type RosVersionSetting = "auto" | RosVersion;
+
+export interface Ros1Time {
+  secs: number;
+  nsecs: number;
+}
+
+export interface Ros2Time {
+  sec: number;
+  nanosec: number;
+}
+
+export type RosTime = Ros1Time | Ros2Time;
+
+// Used until detection finishes, or when the bridge cannot tell us
+export const DEFAULT_ROS_VERSION: RosVersion = 2;
+
+const DETECTION_TIMEOUT = 3000;
+
+export function resolveRosVersion(
+  setting: RosVersionSetting,
+  detected: RosVersion | null
+): RosVersion {
+  if (setting !== "auto") return setting;
+  return detected ?? DEFAULT_ROS_VERSION;
+}
+
+export function createRosTime(
+  timeMs: number,
+  version: RosVersion
+): RosTime {
+  const seconds = Math.floor(timeMs / 1000);
+  const nanoseconds = Math.round((timeMs % 1000) * 1000000);
+
+  return version === 1
+    ? { secs: seconds, nsecs: nanoseconds }
+    : { sec: seconds, nanosec: nanoseconds };
+}
+
+export function rosTimeToMs(time: RosTime): number {
+  return "secs" in time
+    ? time.secs * 1000 + time.nsecs / 1000000
+    : time.sec * 1000 + time.nanosec / 1000000;
+}
+
+// "diagnostic_msgs/DiagnosticArray" <-> "diagnostic_msgs/msg/DiagnosticArray"
+export function adaptTypeName(
+  typeName: string,
+  version: RosVersion,
+  kind: "msg" | "srv" | "action" = "msg"
+): string {
+  const segments = typeName.split("/");
+  const packageName = segments[0];
+  const name = segments[segments.length - 1];
+  if (segments.length < 2 || !packageName || !name) return typeName;
+
+  return version === 2
+    ? `${packageName}/${kind}/${name}`
+    : `${packageName}/${name}`;
+}
+
+export async function detectRosVersion(
+  ros: ROSLIB.Ros
+): Promise<RosVersion | null> {
+  try {
+    const response = await withTimeout(
+      new Promise<{ version: number }>((resolve, reject) => {
+        new ROSLIB.Service<object, { version: number }>({
+          ros,
+          name: "/rosapi/get_ros_version",
+          serviceType: "rosapi/GetROSVersion",
+        }).callService({}, resolve, reject);
+      })
+    );
+    if (response.version === 1 || response.version === 2) {
+      return response.version;
+    }
+  } catch {
+    // Older rosapi releases do not provide get_ros_version
+  }
+
+  try {
+    const { topics } = await withTimeout(
+      new Promise<{ topics: string[] }>((resolve, reject) => {
+        ros.getTopics(resolve, reject);
+      })
+    );
+    // Every ROS 2 graph carries /parameter_events; ROS 1 never does
+    return topics.includes("/parameter_events") ? 2 : 1;
+  } catch (error) {
+    console.warn("Could not detect ROS version from rosapi:", error);
+    return null;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error("rosapi request timed out")),
+      DETECTION_TIMEOUT
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
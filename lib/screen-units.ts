@@ -0,0 +1,11 @@
+// CSS defines 96 px per inch. Real panels vary, so mm figures derived from
+// this are nominal until the device has been calibrated.
+export const CSS_PX_PER_MM = 96 / 25.4;
+
+export function pxToMm(px: number, pxPerMm = CSS_PX_PER_MM) {
+  return px / pxPerMm;
+}
+
+export function mmToPx(mm: number, pxPerMm = CSS_PX_PER_MM) {
+  return mm * pxPerMm;
+}
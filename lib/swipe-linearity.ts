@@ -0,0 +1,154 @@
+import { CSS_PX_PER_MM, mmToPx, pxToMm } from "./screen-units";
+import {
+  SwipeDirection,
+  SwipeLineResult,
+  TracePoint,
+} from "./test-results";
+
+export interface SwipeLine {
+  direction: SwipeDirection;
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+}
+
+export const SWIPE_DIRECTIONS: SwipeDirection[] = [
+  "horizontal",
+  "vertical",
+  "diagonal",
+];
+
+// Guide lines stop this fraction short of the screen edges
+const LINE_INSET = 0.1;
+const SPEED_PROFILE_BINS = 10;
+// A swipe further than this from its line scores zero
+const MAX_ACCEPTABLE_DEVIATION_MM = 8;
+
+export function createSwipeLine(
+  direction: SwipeDirection,
+  viewport: { width: number; height: number }
+): SwipeLine {
+  const { width, height } = viewport;
+  const near = (size: number) => size * LINE_INSET;
+  const far = (size: number) => size * (1 - LINE_INSET);
+
+  switch (direction) {
+    case "horizontal":
+      return {
+        direction,
+        start: { x: near(width), y: height / 2 },
+        end: { x: far(width), y: height / 2 },
+      };
+    case "vertical":
+      return {
+        direction,
+        start: { x: width / 2, y: near(height) },
+        end: { x: width / 2, y: far(height) },
+      };
+    case "diagonal":
+      return {
+        direction,
+        start: { x: near(width), y: near(height) },
+        end: { x: far(width), y: far(height) },
+      };
+  }
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Line and points are in CSS px; `pxPerMm` converts the tolerance. */
+export function analyzeSwipe(
+  line: SwipeLine,
+  points: TracePoint[],
+  completionTime: number,
+  pxPerMm = CSS_PX_PER_MM
+): SwipeLineResult {
+  const dx = line.end.x - line.start.x;
+  const dy = line.end.y - line.start.y;
+  const length = Math.hypot(dx, dy);
+
+  // Position along the line (px from the start) and signed distance off it
+  const along = (point: TracePoint) =>
+    ((point.x - line.start.x) * dx + (point.y - line.start.y) * dy) / length;
+  const across = (point: TracePoint) =>
+    ((point.x - line.start.x) * dy - (point.y - line.start.y) * dx) / length;
+
+  const deviations = points.map((point) => Math.abs(across(point)));
+  const maxDeviation = Math.max(0, ...deviations);
+  const meanDeviation =
+    deviations.length > 0
+      ? deviations.reduce((sum, value) => sum + value, 0) / deviations.length
+      : 0;
+
+  const positions = points.map(along);
+  const covered =
+    positions.length > 0
+      ? Math.min(length, Math.max(...positions)) -
+        Math.max(0, Math.min(...positions))
+      : 0;
+  const coverage = Math.max(0, covered / length) * 100;
+
+  const intervals = points
+    .slice(1)
+    .map((point, i) => point.timestamp - points[i].timestamp);
+  const typicalInterval = median(intervals);
+  const span =
+    points.length > 1
+      ? points[points.length - 1].timestamp - points[0].timestamp
+      : 0;
+
+  // Speed per stretch of the line, from the samples that ended in it
+  const distances = Array<number>(SPEED_PROFILE_BINS).fill(0);
+  const durations = Array<number>(SPEED_PROFILE_BINS).fill(0);
+  let totalDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    const distance = Math.hypot(
+      points[i].x - points[i - 1].x,
+      points[i].y - points[i - 1].y
+    );
+    totalDistance += distance;
+
+    const bin = Math.min(
+      SPEED_PROFILE_BINS - 1,
+      Math.max(0, Math.floor((positions[i] / length) * SPEED_PROFILE_BINS))
+    );
+    distances[bin] += distance;
+    durations[bin] += intervals[i - 1];
+  }
+
+  const maxAcceptableDeviation = mmToPx(
+    MAX_ACCEPTABLE_DEVIATION_MM,
+    pxPerMm
+  );
+  const deviationScore = Math.round(
+    Math.max(0, 100 - (maxDeviation / maxAcceptableDeviation) * 100)
+  );
+  const meanScore = Math.max(
+    0,
+    100 - (meanDeviation / maxAcceptableDeviation) * 100
+  );
+
+  return {
+    direction: line.direction,
+    accuracy:
+      points.length > 1 ? Math.round((meanScore * coverage) / 100) : 0,
+    completionTime,
+    tracePoints: points,
+    totalDistance,
+    deviationScore: points.length > 1 ? deviationScore : 0,
+    coverage,
+    maxDeviation,
+    maxDeviationMm: pxToMm(maxDeviation, pxPerMm),
+    speedProfile: distances.map((distance, bin) =>
+      durations[bin] > 0 ? (distance / durations[bin]) * 1000 : 0
+    ),
+    reportRate: span > 0 ? ((points.length - 1) / span) * 1000 : 0,
+    droppedSamples: intervals.filter(
+      (interval) => interval > 2 * typicalInterval
+    ).length,
+    maxGap: Math.max(0, ...intervals),
+  };
+}
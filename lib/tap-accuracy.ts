@@ -0,0 +1,138 @@
+import { CSS_PX_PER_MM, pxToMm } from "./screen-units";
+import { TapAccuracyResult, TapAttempt, TapTarget } from "./test-results";
+
+// Each target is announced on TAP_TARGET_TOPIC (std_msgs/String) as a
+// JSON-encoded TapTargetMessage so the robot knows where to tap next.
+export const TAP_TARGET_TOPIC = "/tap_target";
+
+// Targets sit on a grid inset from the screen edges by this fraction
+const TARGET_INSET = 0.15;
+
+export interface TapTargetMessage {
+  index: number;
+  count: number;
+  x_px: number;
+  y_px: number;
+  x_mm: number;
+  y_mm: number;
+  viewport_px: { width: number; height: number };
+  device_pixel_ratio: number;
+  timestamp: number;
+}
+
+/**
+ * Lays `count` targets out row by row on a near-square grid. `pxPerMm`
+ * converts their positions to mm.
+ */
+export function createTapTargets(
+  count: number,
+  viewport: { width: number; height: number },
+  pxPerMm = CSS_PX_PER_MM
+): TapTarget[] {
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const position = (slot: number, slots: number, size: number) =>
+    Math.round(
+      size *
+        (slots === 1
+          ? 0.5
+          : TARGET_INSET + ((1 - 2 * TARGET_INSET) * slot) / (slots - 1))
+    );
+
+  return Array.from({ length: count }, (_, index) => {
+    const x = position(index % columns, columns, viewport.width);
+    const y = position(Math.floor(index / columns), rows, viewport.height);
+    return {
+      index,
+      x,
+      y,
+      xMm: pxToMm(x, pxPerMm),
+      yMm: pxToMm(y, pxPerMm),
+    };
+  });
+}
+
+export function createTapTargetMessage(
+  target: TapTarget,
+  count: number,
+  viewport: { width: number; height: number }
+) {
+  const message: TapTargetMessage = {
+    index: target.index,
+    count,
+    x_px: target.x,
+    y_px: target.y,
+    x_mm: Number(target.xMm.toFixed(2)),
+    y_mm: Number(target.yMm.toFixed(2)),
+    viewport_px: viewport,
+    device_pixel_ratio: window.devicePixelRatio,
+    timestamp: Date.now(),
+  };
+  return { data: JSON.stringify(message) };
+}
+
+export function createTapAttempt(
+  target: TapTarget,
+  touch: TapAttempt["touch"],
+  pxPerMm = CSS_PX_PER_MM
+): TapAttempt {
+  if (!touch) {
+    return {
+      target,
+      touch: null,
+      offsetX: 0,
+      offsetY: 0,
+      offsetXMm: 0,
+      offsetYMm: 0,
+      errorMm: 0,
+    };
+  }
+
+  const offsetX = touch.x - target.x;
+  const offsetY = touch.y - target.y;
+  return {
+    target,
+    touch,
+    offsetX,
+    offsetY,
+    offsetXMm: pxToMm(offsetX, pxPerMm),
+    offsetYMm: pxToMm(offsetY, pxPerMm),
+    errorMm: pxToMm(Math.hypot(offsetX, offsetY), pxPerMm),
+  };
+}
+
+function mean(values: number[]) {
+  return values.length === 0
+    ? 0
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function summarizeTapAccuracy(
+  attempts: TapAttempt[],
+  viewport: { width: number; height: number },
+  testDuration: number,
+  pxPerMm = CSS_PX_PER_MM
+): TapAccuracyResult {
+  const hits = attempts.filter((attempt) => attempt.touch !== null);
+  const errors = hits.map(({ offsetX, offsetY }) =>
+    Math.hypot(offsetX, offsetY)
+  );
+
+  return {
+    attempts,
+    hits: hits.length,
+    missed: attempts.length - hits.length,
+    meanError: mean(errors),
+    meanErrorMm: pxToMm(mean(errors), pxPerMm),
+    maxErrorMm: pxToMm(Math.max(0, ...errors), pxPerMm),
+    bias: {
+      x: mean(hits.map((attempt) => attempt.offsetX)),
+      y: mean(hits.map((attempt) => attempt.offsetY)),
+      xMm: mean(hits.map((attempt) => attempt.offsetXMm)),
+      yMm: mean(hits.map((attempt) => attempt.offsetYMm)),
+    },
+    viewport,
+    pxPerMm,
+    testDuration,
+  };
+}
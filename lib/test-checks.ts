@@ -0,0 +1,49 @@
+import {
+  GestureResult,
+  ShapeTracingResult,
+  SwipeLineResult,
+  TapAccuracyResult,
+} from "./test-results";
+import { TestThresholds } from "./test-plugin";
+
+// Pass/fail rules shared by the report plugins and the /diagnostics
+// converters, so the report and the published status judge alike.
+
+export function tracingPassed(
+  tracing: ShapeTracingResult,
+  thresholds: TestThresholds
+) {
+  return (
+    tracing.accuracy >= thresholds.minTracingAccuracy &&
+    tracing.coverage >= thresholds.minTracingCoverage &&
+    tracing.maxDeviationMm <= thresholds.maxTracingDeviationMm
+  );
+}
+
+export function swipePassed(
+  swipe: SwipeLineResult,
+  thresholds: TestThresholds
+) {
+  return (
+    swipe.accuracy > 0 &&
+    swipe.maxDeviationMm <= thresholds.maxDeviationMm &&
+    swipe.reportRate >= thresholds.minReportRateHz &&
+    swipe.droppedSamples <= thresholds.maxDroppedSamples
+  );
+}
+
+export function gesturePassed(
+  gesture: GestureResult,
+  thresholds: TestThresholds
+) {
+  return (
+    gesture.completed &&
+    gesture.score >= thresholds.minGestureScore &&
+    gesture.continuity >= thresholds.minContinuity
+  );
+}
+
+/** Length of the mean offset vector, in mm at the run's calibration. */
+export function tapBiasMm(result: TapAccuracyResult) {
+  return Math.hypot(result.bias.xMm, result.bias.yMm);
+}
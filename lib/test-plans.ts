@@ -0,0 +1,253 @@
+import * as ROSLIB from "roslib";
+import { parse as parseYaml } from "yaml";
+import {
+  AnyTestPlugin,
+  TestParamValue,
+  TestParams,
+  TestThresholds,
+  isRecord,
+} from "./test-plugin";
+
+// Test plans pick which registry tests run, in what order, and with which
+// parameters and pass thresholds. Profiles live in public/test-plans as JSON
+// or YAML and are listed in public/test-plans/index.json:
+//
+//   id: display-proximity
+//   name: Display and proximity
+//   tests:
+//     - test: display
+//       params: { colorDuration: 5000 }
+//     - test: proximity
+//       thresholds: { ... }
+
+export const TEST_PLANS_PATH = "/test-plans";
+export const TEST_PLAN_QUERY_PARAM = "plan";
+export const TEST_PLAN_ROS_PARAM = "/phone_test_plan";
+export const DEFAULT_TEST_PLAN_ID = "default";
+const ROS_PARAM_TIMEOUT = 3000;
+
+export interface TestPlanEntry {
+  /** Registry plugin id, e.g. "touchscreen". */
+  test: string;
+  params?: TestParams;
+  thresholds?: TestThresholds;
+}
+
+export interface TestPlan {
+  id: string;
+  name: string;
+  description?: string;
+  tests: TestPlanEntry[];
+}
+
+export interface PlannedTest {
+  plugin: AnyTestPlugin;
+  params: TestParams;
+  thresholds: TestThresholds;
+}
+
+export type TestPlanSource = "default" | "home" | "url" | "ros";
+
+/** Every registered test in registry order with its default parameters. */
+export function createDefaultTestPlan(plugins: AnyTestPlugin[]): TestPlan {
+  return {
+    id: DEFAULT_TEST_PLAN_ID,
+    name: "Full suite",
+    description: "Every available test with default parameters",
+    tests: plugins.map((plugin) => ({ test: plugin.id })),
+  };
+}
+
+function parseNumberMap(
+  value: unknown,
+  field: string
+): TestThresholds | undefined {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    throw new Error(`"${field}" must be a map of numbers`);
+  }
+
+  const numbers: TestThresholds = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry !== "number" || !Number.isFinite(entry)) {
+      throw new Error(`"${field}.${key}" must be a number`);
+    }
+    numbers[key] = entry;
+  }
+  return numbers;
+}
+
+function isParamValue(value: unknown): value is TestParamValue {
+  return (
+    (typeof value === "number" && Number.isFinite(value)) ||
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((item) => typeof item === "string"))
+  );
+}
+
+function parseParamMap(value: unknown, field: string): TestParams | undefined {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    throw new Error(`"${field}" must be a map`);
+  }
+
+  const params: TestParams = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!isParamValue(entry)) {
+      throw new Error(
+        `"${field}.${key}" must be a number, a string or a list of strings`
+      );
+    }
+    params[key] = entry;
+  }
+  return params;
+}
+
+/** Validates a parsed profile document; throws when malformed. */
+export function toTestPlan(value: unknown): TestPlan {
+  if (!isRecord(value)) {
+    throw new Error("Test plan must be an object");
+  }
+  if (typeof value.id !== "string" || value.id === "") {
+    throw new Error('Test plan is missing an "id"');
+  }
+  if (!Array.isArray(value.tests)) {
+    throw new Error(`Test plan "${value.id}" has no "tests" list`);
+  }
+
+  const tests = value.tests.map((entry: unknown, index: number) => {
+    // A bare string is shorthand for a test with default parameters
+    if (typeof entry === "string") return { test: entry };
+    if (!isRecord(entry) || typeof entry.test !== "string") {
+      throw new Error(
+        `Test plan "${value.id}" entry ${index + 1} needs a "test" id`
+      );
+    }
+    return {
+      test: entry.test,
+      params: parseParamMap(entry.params, `tests[${index}].params`),
+      thresholds: parseNumberMap(
+        entry.thresholds,
+        `tests[${index}].thresholds`
+      ),
+    };
+  });
+
+  return {
+    id: value.id,
+    name: typeof value.name === "string" ? value.name : value.id,
+    description:
+      typeof value.description === "string" ? value.description : undefined,
+    tests,
+  };
+}
+
+// YAML is a superset of JSON, so one parser handles both profile formats
+/** Parses a JSON or YAML profile; throws when it is malformed. */
+export function parseTestPlan(text: string): TestPlan {
+  let document: unknown;
+  try {
+    document = parseYaml(text);
+  } catch (error) {
+    throw new Error(
+      `Test plan is not valid JSON or YAML: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  return toTestPlan(document);
+}
+
+/** Fetches every profile listed in the index, skipping broken ones. */
+export async function loadTestPlans(
+  basePath = TEST_PLANS_PATH
+): Promise<TestPlan[]> {
+  const indexResponse = await fetch(`${basePath}/index.json`);
+  if (!indexResponse.ok) {
+    throw new Error(
+      `Failed to load test plan index (${indexResponse.status})`
+    );
+  }
+
+  const files: unknown = await indexResponse.json();
+  if (!Array.isArray(files)) {
+    throw new Error("Test plan index must be a list of file names");
+  }
+
+  const plans = await Promise.all(
+    files.map(async (file) => {
+      try {
+        const response = await fetch(`${basePath}/${file}`);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return parseTestPlan(await response.text());
+      } catch (error) {
+        console.warn(`Skipping test plan ${file}:`, error);
+        return null;
+      }
+    })
+  );
+
+  return plans.filter((plan): plan is TestPlan => plan !== null);
+}
+
+/** Resolves plan entries against the registry, dropping unknown test ids. */
+export function resolveTestPlan(
+  plan: TestPlan,
+  plugins: AnyTestPlugin[]
+): PlannedTest[] {
+  return plan.tests.flatMap((entry) => {
+    const plugin = plugins.find((candidate) => candidate.id === entry.test);
+    if (!plugin) {
+      console.warn(
+        `Test plan "${plan.id}" references unknown test "${entry.test}"`
+      );
+      return [];
+    }
+    return [
+      {
+        plugin,
+        params: { ...plugin.defaultParams, ...entry.params },
+        thresholds: { ...plugin.defaultThresholds, ...entry.thresholds },
+      },
+    ];
+  });
+}
+
+/** Plan id requested through `?plan=<id>`, if any. */
+export function getTestPlanIdFromUrl(search = window.location.search) {
+  return new URLSearchParams(search).get(TEST_PLAN_QUERY_PARAM);
+}
+
+/**
+ * Reads the plan the robot cell asks for. The parameter holds either a plan id
+ * or a whole profile (a map, or a JSON/YAML string); resolves to null when it
+ * is unset or malformed.
+ */
+export function readTestPlanParam(
+  ros: ROSLIB.Ros
+): Promise<string | TestPlan | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), ROS_PARAM_TIMEOUT);
+    const param = new ROSLIB.Param({ ros, name: TEST_PLAN_ROS_PARAM });
+
+    param.get((value: unknown) => {
+      clearTimeout(timer);
+      try {
+        if (isRecord(value)) {
+          resolve(toTestPlan(value));
+        } else if (typeof value === "string" && value.trim() !== "") {
+          const text = value.trim();
+          // Plan ids are bare words; anything structured is an inline profile
+          resolve(/[\n{:]/.test(text) ? parseTestPlan(text) : text);
+        } else {
+          resolve(null);
+        }
+      } catch (error) {
+        console.warn(`Ignoring ${TEST_PLAN_ROS_PARAM}:`, error);
+        resolve(null);
+      }
+    });
+  });
+}
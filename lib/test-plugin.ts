@@ -0,0 +1,82 @@
+import type { ComponentType } from "react";
+import type { DiagnosticStatus } from "./diagnostics";
+
+export interface TestComponentProps<TResult> {
+  onTestComplete: (result: TResult) => void;
+  showFloatingControls?: boolean;
+  /** The plan's thresholds, for tests that show a verdict of their own. */
+  thresholds?: TestThresholds;
+}
+
+/** A test plan parameter: a number, or a name or list of names. */
+export type TestParamValue = number | string | string[];
+
+/** Knobs a test plan can tune, e.g. durations or which shapes to trace. */
+export type TestParams = Record<string, TestParamValue>;
+
+/** Numeric pass thresholds a test plan can tune. */
+export type TestThresholds = Record<string, number>;
+
+export interface TestCheck {
+  name: string;
+  passed: boolean;
+}
+
+export interface TestMetric {
+  metric: string;
+  value: number;
+  threshold: number;
+  status: "Good" | "Poor";
+}
+
+export interface TestDetail {
+  label: string;
+  value: string;
+}
+
+// A test that can be dropped into the suite: everything TestSuite,
+// DiagnosticReport and the ROS publisher need to know about it lives here.
+export interface TestPlugin<
+  TResult = unknown,
+  TParams extends TestParams = TestParams
+> {
+  /** Step id, also accepted by the robot's `start <id>` command. */
+  id: string;
+  title: string;
+  description: string;
+  /** Key the result is stored under in TestSuiteResult and the /diagnostics payload. */
+  resultKey: string;
+  /** Receives the plan's `params`, merged over `defaultParams`, as props. */
+  component: ComponentType<TestComponentProps<TResult> & Partial<TParams>>;
+  defaultParams: TParams;
+  defaultThresholds: TestThresholds;
+  showFloatingControls?: boolean;
+  /** Hold the suite until the robot publishes `<resultKey>_confirmed`. */
+  awaitRobotConfirmation?: boolean;
+  /** Result schema; rejects stale or foreign values stored under `resultKey`. */
+  isResult: (value: unknown) => value is TResult;
+  /** 0-100 contribution to the overall report score. */
+  score: (result: TResult, thresholds: TestThresholds) => number;
+  checks: (result: TResult, thresholds: TestThresholds) => TestCheck[];
+  metrics: (result: TResult, thresholds: TestThresholds) => TestMetric[];
+  details: (result: TResult) => TestDetail[];
+  /** Test-specific visualisation rendered in its own report card. */
+  reportView?: ComponentType<{ result: TResult }>;
+  /** ROS status for the result, judged by the same thresholds as the report. */
+  toDiagnosticStatus: (
+    result: TResult,
+    thresholds: TestThresholds
+  ) => DiagnosticStatus;
+}
+
+export type AnyTestPlugin = TestPlugin<any, any>;
+
+export function defineTestPlugin<TResult, TParams extends TestParams>(
+  plugin: TestPlugin<TResult, TParams>
+): TestPlugin<TResult, TParams> {
+  return plugin;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
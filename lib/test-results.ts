@@ -0,0 +1,347 @@
+/** What the Pointer Events API reports about a contact. */
+export interface PointerContact {
+  pointerType: string; // "touch", "pen" or "mouse"
+  pressure: number; // 0-1
+  /** Pen tilt in degrees; 0 for fingers. */
+  tiltX: number;
+  tiltY: number;
+  twist: number;
+  /** Contact size in CSS px. */
+  width: number;
+  height: number;
+}
+
+export interface TouchPoint {
+  id: number;
+  x: number;
+  y: number;
+  timestamp: number;
+  contact?: PointerContact;
+}
+
+export interface ForceDistribution {
+  samples: number;
+  /** Samples per pointer type, e.g. `{ touch: 120, pen: 4 }`. */
+  pointerTypes: Record<string, number>;
+  /** False when every sample carried the spec's 0 or 0.5 placeholder. */
+  pressureReported: boolean;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+  /** Sample counts in ten equal pressure bins from 0 to 1. */
+  histogram: number[];
+  meanContactWidth: number;
+  meanContactHeight: number;
+}
+
+export interface LatencyStats {
+  samples: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+// All latencies are in ms and measured from the touch event's own timestamp
+export interface TouchLatencyResult {
+  /** Until the event handler ran. */
+  input: LatencyStats;
+  /** Until the next animation frame, i.e. when feedback can be on screen. */
+  frame: LatencyStats;
+  /** From the robot's published actuation stamp; needs synchronised clocks. */
+  endToEnd?: LatencyStats;
+}
+
+export interface TouchTestResult {
+  multiTouchSupported: boolean;
+  maxSimultaneousTouches: number;
+  averageResponseTime: number;
+  totalTouches: number;
+  testDuration: number;
+  touchPoints: TouchPoint[];
+  latency?: TouchLatencyResult;
+  force?: ForceDistribution;
+}
+
+export interface TracePoint {
+  x: number;
+  y: number;
+  /** Position in mm, on tests that draw to a physical scale. */
+  xMm?: number;
+  yMm?: number;
+  timestamp: number;
+  contact?: PointerContact;
+  /** First sample after a pointer-down; the finger was lifted before it. */
+  strokeStart?: boolean;
+}
+
+export type TracingShape =
+  | "square"
+  | "diamond"
+  | "circle"
+  | "spiral"
+  | "figure-eight"
+  | "zig-zag"
+  | "custom";
+
+export interface TraceScore {
+  /** Weighted blend of the scores below, 0-100. */
+  accuracy: number;
+  /** Closeness from the mean distance to the outline, 0-100. */
+  deviationScore: number;
+  /** Share of the outline passed within reach, 0-100. */
+  coverage: number;
+  /** Distance of the first touch from the start point, in px. */
+  startDeviation: number;
+  startScore: number;
+  /** Dynamic time warping closeness, following the outline in order. */
+  directionScore: number;
+  /** The trace follows the outline better backwards than forwards. */
+  reversed: boolean;
+  meanDeviation: number;
+  maxDeviation: number;
+  maxDeviationMm: number;
+}
+
+// Each scoring component is kept so thresholds can target it directly
+export interface ShapeTracingResult extends TraceScore {
+  shape: TracingShape;
+  /** SVG path of the ideal outline, as drawn on the tracing canvas. */
+  path?: string;
+  /** Side of the square tracing canvas, in CSS px. */
+  canvasSize: number;
+  shapeSizeMm: number;
+  /** Calibration the canvas was drawn with. */
+  pxPerMm: number;
+  completionTime: number;
+  tracePoints: TracePoint[];
+  totalDistance: number;
+}
+
+export type SwipeDirection = "horizontal" | "vertical" | "diagonal";
+
+// Shaped like ShapeTracingResult, plus what only a straight line can measure
+export interface SwipeLineResult {
+  direction: SwipeDirection;
+  accuracy: number; // 0-100 percentage
+  completionTime: number;
+  tracePoints: TracePoint[];
+  totalDistance: number;
+  deviationScore: number;
+  /** Share of the guide line's length the swipe covered, 0-100. */
+  coverage: number;
+  /** Largest perpendicular distance from the guide line. */
+  maxDeviation: number;
+  maxDeviationMm: number;
+  /** Mean speed in px/s over ten equal stretches of the line. */
+  speedProfile: number[];
+  /** Input samples per second. */
+  reportRate: number;
+  /** Sample intervals longer than twice the median, i.e. dropped reports. */
+  droppedSamples: number;
+  maxGap: number; // ms
+}
+
+export interface SwipeLinearityResult {
+  swipes: SwipeLineResult[];
+  overallScore: number;
+  /** Calibration the mm figures were computed with. */
+  pxPerMm: number;
+}
+
+export interface CurveTracingResult {
+  tracings: ShapeTracingResult[];
+  overallScore: number;
+}
+
+export interface EnhancedTouchTestResult {
+  basicTouch: TouchTestResult;
+  squareTracing: ShapeTracingResult;
+  diamondTracing: ShapeTracingResult;
+  overallScore: number;
+}
+
+export type GestureKind =
+  | "pinch-in"
+  | "pinch-out"
+  | "rotate"
+  | "two-finger-swipe"
+  | "three-finger-swipe";
+
+export interface GesturePath {
+  id: number;
+  points: TracePoint[];
+}
+
+export interface GestureResult {
+  gesture: GestureKind;
+  /** Fingers the gesture asks for. */
+  fingers: number;
+  completed: boolean;
+  /** Finger spread at the end over the start; 1 means unchanged. */
+  scale: number;
+  /** Signed rotation of the first two fingers, in degrees. */
+  rotation: number;
+  /** Mean finger displacement, in CSS px. */
+  translation: { x: number; y: number };
+  /** Share of the gesture's fingers tracked to the end, 0-100. */
+  continuity: number;
+  /** Identifiers that vanished while the rest of the gesture carried on. */
+  droppedIdentifiers: number[];
+  duration: number;
+  paths: GesturePath[];
+  score: number; // 0-100
+}
+
+export interface GestureTestResult {
+  gestures: GestureResult[];
+  multiTouchSupported: boolean;
+  maxSimultaneousTouches: number;
+  overallScore: number;
+}
+
+export interface GridCell {
+  row: number;
+  column: number;
+}
+
+export interface GridCoverageResult {
+  rows: number;
+  columns: number;
+  /** Touch samples that landed in each cell, indexed `hitMap[row][column]`. */
+  hitMap: number[][];
+  deadCells: GridCell[];
+  coverage: number; // 0-100 percentage
+  /** Viewport size the grid was tiled over, in CSS px. */
+  viewport: { width: number; height: number };
+  testDuration: number;
+}
+
+export interface TapTarget {
+  index: number;
+  /** Target centre in viewport CSS px. */
+  x: number;
+  y: number;
+  xMm: number;
+  yMm: number;
+}
+
+export interface TapAttempt {
+  target: TapTarget;
+  /** Where the touch registered; null when the target timed out. */
+  touch: { x: number; y: number; timestamp: number } | null;
+  /** Touch minus target, in px and mm; zero for missed targets. */
+  offsetX: number;
+  offsetY: number;
+  offsetXMm: number;
+  offsetYMm: number;
+  errorMm: number;
+}
+
+export interface TapAccuracyResult {
+  attempts: TapAttempt[];
+  hits: number;
+  missed: number;
+  /** Mean distance between target and touch over the registered taps. */
+  meanError: number;
+  meanErrorMm: number;
+  maxErrorMm: number;
+  /** Mean offset vector; a consistent shift points at calibration error. */
+  bias: { x: number; y: number; xMm: number; yMm: number };
+  viewport: { width: number; height: number };
+  /** Calibration the mm figures were computed with. */
+  pxPerMm: number;
+  testDuration: number;
+}
+
+export type GhostTouchPhase = "idle" | "targets";
+
+export interface GhostTouch {
+  phase: GhostTouchPhase;
+  /** Touch-down position in viewport CSS px. */
+  x: number;
+  y: number;
+  /** Touch-down time since the test started, in ms. */
+  startTime: number;
+  duration: number;
+}
+
+export interface GhostTouchResult {
+  idleDuration: number;
+  /** Touches while the screen was meant to be left alone. */
+  idleTouches: GhostTouch[];
+  /** Touches during the targets phase that missed the commanded target. */
+  ghostTouches: GhostTouch[];
+  targetCount: number;
+  targetsHit: number;
+  viewport: { width: number; height: number };
+  testDuration: number;
+}
+
+export interface DisplayPixel {
+  /** Device pixels from the top-left of the panel. */
+  x: number;
+  y: number;
+}
+
+/** What the robot's camera found while a pattern was up. */
+export interface DisplayPatternAnalysis {
+  /** Pixels that did not show the pattern, i.e. dead or stuck. */
+  deadPixels: DisplayPixel[];
+  /** Worst luminance deviation from the panel mean, in percent. */
+  uniformityDeviation?: number;
+  /** Colour error against the intended colour, in delta-E (CIEDE2000). */
+  deltaE?: number;
+}
+
+export interface DisplayPatternResult {
+  /** Pattern id from lib/display-patterns, e.g. "checkerboard". */
+  pattern: string;
+  title: string;
+  /** Epoch ms of the first frame that showed the pattern. */
+  presentedAt: number;
+  /** How long the pattern was on screen, in ms. */
+  duration: number;
+  /** Whether the robot acknowledged its capture; unset when not awaited. */
+  captured?: boolean;
+  /** Unset when the robot sent no analysis for the pattern. */
+  analysis?: DisplayPatternAnalysis;
+}
+
+export interface DisplayDefectResult {
+  /** Run id shown in the alignment QR code and sent with each pattern. */
+  sessionId: string;
+  testCompleted: boolean;
+  duration: number;
+  timestamp: number;
+  /** Patterns in the order they were shown. */
+  patterns: DisplayPatternResult[];
+  analyzedPatterns: number;
+  /** Distinct dead pixels over every analysed pattern. */
+  deadPixels: DisplayPixel[];
+  /** Worst figures over the analysed patterns; null when none reported one. */
+  maxUniformityDeviation: number | null;
+  maxDeltaE: number | null;
+}
+
+export interface ProximitySensorResult {
+  sensorActivated: boolean;
+  activationTime: number;
+  testDuration: number;
+  success: boolean;
+}
+
+export interface TestSuiteResult {
+  touchscreen?: EnhancedTouchTestResult;
+  displayDefect?: DisplayDefectResult;
+  proximitySensor?: ProximitySensorResult;
+  gridCoverage?: GridCoverageResult;
+  tapAccuracy?: TapAccuracyResult;
+  gestures?: GestureTestResult;
+  ghostTouch?: GhostTouchResult;
+  swipeLinearity?: SwipeLinearityResult;
+  curveTracing?: CurveTracingResult;
+  // Results of registry plugins beyond the built-in tests, keyed by resultKey
+  [resultKey: string]: unknown;
+}
@@ -0,0 +1,92 @@
+import {
+  LatencyStats,
+  TouchLatencyResult,
+  TouchTestResult,
+} from "./test-results";
+
+export const ACTUATION_TOPIC = "/robot_touch_actuation";
+export const ACTUATION_MESSAGE_TYPE = "std_msgs/Header";
+
+// A touch more than this long after an actuation stamp is not its response
+const MAX_END_TO_END_MS = 1000;
+
+export interface LatencySamples {
+  input: number[];
+  frame: number[];
+  /** Touch-down times as epoch ms, for matching against robot stamps. */
+  touchTimes: number[];
+  /** Robot actuation stamps as epoch ms. */
+  actuationTimes: number[];
+}
+
+export function createLatencySamples(): LatencySamples {
+  return { input: [], frame: [], touchTimes: [], actuationTimes: [] };
+}
+
+function percentile(sorted: number[], fraction: number) {
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil(fraction * sorted.length) - 1)
+  );
+  return sorted[index];
+}
+
+export function computeLatencyStats(values: number[]): LatencyStats {
+  if (values.length === 0) {
+    return { samples: 0, mean: 0, p50: 0, p95: 0, max: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    samples: sorted.length,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/** Pairs each actuation with the first later touch that has not been claimed. */
+export function matchActuations(
+  actuationTimes: number[],
+  touchTimes: number[]
+): number[] {
+  const touches = [...touchTimes].sort((a, b) => a - b);
+  const claimed = new Set<number>();
+  const latencies: number[] = [];
+
+  for (const actuation of [...actuationTimes].sort((a, b) => a - b)) {
+    const index = touches.findIndex(
+      (touch, i) =>
+        !claimed.has(i) &&
+        touch >= actuation &&
+        touch - actuation <= MAX_END_TO_END_MS
+    );
+    if (index < 0) continue;
+
+    claimed.add(index);
+    latencies.push(touches[index] - actuation);
+  }
+
+  return latencies;
+}
+
+/**
+ * The figure response-time thresholds apply to: p95 touch-to-frame latency,
+ * or the plain average for results recorded without latency samples.
+ */
+export function touchResponseTime(result: TouchTestResult): number {
+  return result.latency && result.latency.frame.samples > 0
+    ? result.latency.frame.p95
+    : result.averageResponseTime;
+}
+
+export function summarizeLatency(samples: LatencySamples): TouchLatencyResult {
+  const endToEnd = matchActuations(samples.actuationTimes, samples.touchTimes);
+
+  return {
+    input: computeLatencyStats(samples.input),
+    frame: computeLatencyStats(samples.frame),
+    endToEnd: endToEnd.length > 0 ? computeLatencyStats(endToEnd) : undefined,
+  };
+}
@@ -0,0 +1,202 @@
+import { CSS_PX_PER_MM, mmToPx, pxToMm } from "./screen-units";
+import { TracePoint, TraceScore } from "./test-results";
+
+// Scores a trace against the sampled ideal outline of a shape. Each part is
+// returned on its own so test plans can set thresholds on any of them.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Tolerances are physical so a score means the same on every screen.
+// A trace this far from the outline, on average, scores zero.
+export const MAX_ACCEPTABLE_DEVIATION_MM = 8;
+// Outline samples within this distance of the trace count as covered
+const COVERAGE_RADIUS_MM = 5;
+// Both paths are resampled to this many points before warping
+const DTW_SAMPLES = 64;
+
+const WEIGHTS = {
+  deviation: 0.4,
+  coverage: 0.3,
+  direction: 0.2,
+  start: 0.1,
+};
+
+function closeness(distanceMm: number) {
+  return Math.max(0, 100 - (distanceMm / MAX_ACCEPTABLE_DEVIATION_MM) * 100);
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const projection =
+    lengthSquared > 0
+      ? ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared
+      : 0;
+  const t = Math.max(0, Math.min(1, projection));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+export function distanceToPolyline(point: Point, polyline: Point[]) {
+  if (polyline.length === 1) {
+    return Math.hypot(point.x - polyline[0].x, point.y - polyline[0].y);
+  }
+  let min = Infinity;
+  for (let i = 1; i < polyline.length; i++) {
+    min = Math.min(
+      min,
+      distanceToSegment(point, polyline[i - 1], polyline[i])
+    );
+  }
+  return min;
+}
+
+/** Splits a trace at each pointer-down; strokes are never joined up. */
+export function splitStrokes<T extends { strokeStart?: boolean }>(
+  trace: T[]
+): T[][] {
+  const strokes: T[][] = [];
+  trace.forEach((point, i) => {
+    if (i === 0 || point.strokeStart) strokes.push([]);
+    strokes[strokes.length - 1].push(point);
+  });
+  return strokes;
+}
+
+// Evenly spaced by arc length, so sampling rate and speed do not skew DTW
+function resample(points: Point[], count: number): Point[] {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(
+      cumulative[i - 1] +
+        Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y)
+    );
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (total === 0) return Array.from({ length: count }, () => points[0]);
+
+  let segment = 1;
+  return Array.from({ length: count }, (_, i) => {
+    const target = (total * i) / (count - 1);
+    while (segment < points.length - 1 && cumulative[segment] < target) {
+      segment++;
+    }
+    const start = cumulative[segment - 1];
+    const span = cumulative[segment] - start;
+    const t = span > 0 ? (target - start) / span : 0;
+    const a = points[segment - 1];
+    const b = points[segment];
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  });
+}
+
+// Mean point distance along the cheapest monotonic alignment of a and b
+function dtwDistance(a: Point[], b: Point[]) {
+  const width = b.length + 1;
+  let previousCost = new Float64Array(width).fill(Infinity);
+  let previousSteps = new Float64Array(width);
+  previousCost[0] = 0;
+
+  for (let i = 1; i <= a.length; i++) {
+    const cost = new Float64Array(width).fill(Infinity);
+    const steps = new Float64Array(width);
+    for (let j = 1; j < width; j++) {
+      const distance = Math.hypot(
+        a[i - 1].x - b[j - 1].x,
+        a[i - 1].y - b[j - 1].y
+      );
+      // Cheapest of match, insertion and deletion
+      let bestCost = previousCost[j - 1];
+      let bestSteps = previousSteps[j - 1];
+      if (previousCost[j] < bestCost) {
+        bestCost = previousCost[j];
+        bestSteps = previousSteps[j];
+      }
+      if (cost[j - 1] < bestCost) {
+        bestCost = cost[j - 1];
+        bestSteps = steps[j - 1];
+      }
+      cost[j] = bestCost + distance;
+      steps[j] = bestSteps + 1;
+    }
+    previousCost = cost;
+    previousSteps = steps;
+  }
+
+  return previousCost[b.length] / previousSteps[b.length];
+}
+
+const EMPTY_SCORE: TraceScore = {
+  accuracy: 0,
+  deviationScore: 0,
+  coverage: 0,
+  startDeviation: 0,
+  startScore: 0,
+  directionScore: 0,
+  reversed: false,
+  meanDeviation: 0,
+  maxDeviation: 0,
+  maxDeviationMm: 0,
+};
+
+/**
+ * Scores `trace` against `ideal`, the outline sampled in drawing order from
+ * its start point. Both are in CSS px; `pxPerMm` converts the tolerances.
+ */
+export function scoreTrace(
+  trace: TracePoint[],
+  ideal: Point[],
+  pxPerMm = CSS_PX_PER_MM
+): TraceScore {
+  if (trace.length < 2 || ideal.length < 2) return EMPTY_SCORE;
+
+  const deviations = trace.map((point) => distanceToPolyline(point, ideal));
+  const meanDeviation =
+    deviations.reduce((sum, value) => sum + value, 0) / deviations.length;
+  const maxDeviation = Math.max(...deviations);
+
+  // Lifting the finger does not cover the gap to where it comes down again
+  const strokes = splitStrokes(trace);
+  const coverageRadius = mmToPx(COVERAGE_RADIUS_MM, pxPerMm);
+  const covered = ideal.filter((point) =>
+    strokes.some(
+      (stroke) => distanceToPolyline(point, stroke) <= coverageRadius
+    )
+  ).length;
+  const coverage = (covered / ideal.length) * 100;
+
+  const startDeviation = Math.hypot(
+    trace[0].x - ideal[0].x,
+    trace[0].y - ideal[0].y
+  );
+
+  const traceSamples = resample(trace, DTW_SAMPLES);
+  const idealSamples = resample(ideal, DTW_SAMPLES);
+  const forward = dtwDistance(traceSamples, idealSamples);
+  const backward = dtwDistance(traceSamples, [...idealSamples].reverse());
+
+  const deviationScore = closeness(pxToMm(meanDeviation, pxPerMm));
+  const startScore = closeness(pxToMm(startDeviation, pxPerMm));
+  const directionScore = closeness(pxToMm(forward, pxPerMm));
+
+  return {
+    accuracy: Math.round(
+      deviationScore * WEIGHTS.deviation +
+        coverage * WEIGHTS.coverage +
+        directionScore * WEIGHTS.direction +
+        startScore * WEIGHTS.start
+    ),
+    deviationScore: Math.round(deviationScore),
+    coverage,
+    startDeviation,
+    startScore: Math.round(startScore),
+    directionScore: Math.round(directionScore),
+    reversed: backward < forward,
+    meanDeviation,
+    maxDeviation,
+    maxDeviationMm: pxToMm(maxDeviation, pxPerMm),
+  };
+}
@@ -0,0 +1,176 @@
+import { TracePoint, TracingShape } from "./test-results";
+
+// Every shape is an SVG path. Built-in ones are drawn in a 100×100 box;
+// custom paths may use any units. Either way the path is scaled to fit the
+// tracing area and sampled, so scoring and drawing need no per-shape code.
+
+export type BuiltInTracingShape = Exclude<TracingShape, "custom">;
+
+export interface TracingShapeDefinition {
+  shape: TracingShape;
+  title: string;
+  path: string;
+}
+
+export interface ShapeBox {
+  centerX: number;
+  centerY: number;
+  size: number;
+}
+
+export interface SampledShape {
+  /** Ideal outline, in order from the start point. */
+  points: TracePoint[];
+  /** The same outline as an SVG path in canvas coordinates. */
+  path: string;
+  closed: boolean;
+}
+
+const IDEAL_SAMPLES = 200;
+
+function polyline(points: Array<[number, number]>) {
+  return points
+    .map(
+      ([x, y], i) => `${i === 0 ? "M" : "L"} ${x.toFixed(2)} ${y.toFixed(2)}`
+    )
+    .join(" ");
+}
+
+// Archimedean spiral from the centre outwards, three turns
+function spiralPath() {
+  const turns = 3;
+  const steps = 120;
+  return polyline(
+    Array.from({ length: steps + 1 }, (_, i) => {
+      const t = (i / steps) * turns * 2 * Math.PI;
+      const r = (50 * i) / steps;
+      return [50 + r * Math.sin(t), 50 - r * Math.cos(t)];
+    })
+  );
+}
+
+// Lemniscate of Gerono stood upright, starting and ending at the crossing
+function figureEightPath() {
+  const steps = 120;
+  return `${polyline(
+    Array.from({ length: steps + 1 }, (_, i) => {
+      const t = (i / steps) * 2 * Math.PI;
+      return [50 + 25 * Math.sin(2 * t), 50 - 50 * Math.sin(t)];
+    })
+  )} Z`;
+}
+
+export const TRACING_SHAPES: Record<
+  BuiltInTracingShape,
+  TracingShapeDefinition
+> = {
+  square: {
+    shape: "square",
+    title: "Square",
+    path: "M 0 0 H 100 V 100 H 0 Z",
+  },
+  diamond: {
+    shape: "diamond",
+    title: "Diamond",
+    path: "M 50 0 L 100 50 L 50 100 L 0 50 Z",
+  },
+  circle: {
+    shape: "circle",
+    title: "Circle",
+    path: "M 50 0 A 50 50 0 0 1 50 100 A 50 50 0 0 1 50 0 Z",
+  },
+  spiral: { shape: "spiral", title: "Spiral", path: spiralPath() },
+  "figure-eight": {
+    shape: "figure-eight",
+    title: "Figure Eight",
+    path: figureEightPath(),
+  },
+  "zig-zag": {
+    shape: "zig-zag",
+    title: "Zig-zag",
+    path: "M 0 0 L 20 100 L 40 0 L 60 100 L 80 0 L 100 100",
+  },
+};
+
+function isBuiltInShape(value: string): value is BuiltInTracingShape {
+  return value in TRACING_SHAPES;
+}
+
+/** Display name; custom paths have none, so they go by position. */
+export function tracingTitle(shape: TracingShape, index: number) {
+  return shape === "custom"
+    ? `Custom Shape ${index + 1}`
+    : TRACING_SHAPES[shape].title;
+}
+
+/**
+ * Resolves a test plan entry: a built-in shape name, or an SVG path string
+ * such as "M 0 0 C 50 100 100 0 150 100" for a custom shape.
+ */
+export function resolveTracingShape(value: string): TracingShapeDefinition {
+  const name = value.trim();
+  if (isBuiltInShape(name)) return TRACING_SHAPES[name];
+  if (/^[Mm]/.test(name)) {
+    return { shape: "custom", title: "Custom Shape", path: name };
+  }
+  throw new Error(`Unknown tracing shape "${value}"`);
+}
+
+/**
+ * Samples `path` evenly along its length and scales it, keeping its aspect
+ * ratio, to fit `box`. Needs the DOM to measure the path.
+ */
+export function sampleShapePath(
+  path: string,
+  box: ShapeBox,
+  samples = IDEAL_SAMPLES
+): SampledShape {
+  // Some browsers only measure paths that are in the document
+  const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+  const element = document.createElementNS(
+    "http://www.w3.org/2000/svg",
+    "path"
+  );
+  element.setAttribute("d", path);
+  svg.style.position = "absolute";
+  svg.style.visibility = "hidden";
+  svg.appendChild(element);
+  document.body.appendChild(svg);
+
+  let raw: DOMPoint[];
+  try {
+    const length = element.getTotalLength();
+    raw = Array.from({ length: samples }, (_, i) =>
+      element.getPointAtLength((length * i) / (samples - 1))
+    );
+  } finally {
+    svg.remove();
+  }
+
+  const xs = raw.map((point) => point.x);
+  const ys = raw.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const scale = box.size / Math.max(width, height, 1);
+
+  const points = raw.map((point) => ({
+    x: box.centerX + (point.x - minX - width / 2) * scale,
+    y: box.centerY + (point.y - minY - height / 2) * scale,
+    timestamp: 0,
+  }));
+  const closed = /[Zz]\s*$/.test(path);
+  const outline = polyline(points.map(({ x, y }) => [x, y]));
+
+  return { points, path: closed ? `${outline} Z` : outline, closed };
+}
+
+/** Reads back the points of an outline stored by `sampleShapePath`. */
+export function parseOutline(path: string): Array<{ x: number; y: number }> {
+  const commands = path.matchAll(/[ML]\s*(-?[\d.]+)\s+(-?[\d.]+)/g);
+  return Array.from(commands, (match) => ({
+    x: Number(match[1]),
+    y: Number(match[2]),
+  }));
+}
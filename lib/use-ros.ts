@@ -1,59 +1,251 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useCallback,
+  useRef
+} from 'react';
 import * as ROSLIB from 'roslib';
+import {
+  QueuedMessage,
+  createQueuedMessage,
+  loadQueuedMessages,
+  saveQueuedMessage,
+  removeQueuedMessage
+} from './publish-queue';
+import {
+  DEFAULT_ROS_VERSION,
+  RosVersion,
+  RosVersionSetting,
+  adaptTypeName,
+  detectRosVersion
+} from './ros-dialect';
 
-interface UseRosOptions {
+export type RosConnectionStatus =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting';
+
+export interface ReconnectOptions {
+  enabled?: boolean;
+  /** Delay before the first retry, in ms. */
+  initialDelay?: number;
+  /** Upper bound for a single retry delay, in ms. */
+  maxDelay?: number;
+  multiplier?: number;
+  /** Fraction (0-1) of each delay that is randomised. */
+  jitter?: number;
+  maxAttempts?: number;
+}
+
+export interface UseRosOptions {
   url?: string;
+  reconnect?: ReconnectOptions;
+}
+
+interface UseRosTopicOptions {
+  /** Connection to subscribe on; defaults to the one from `RosProvider`. */
+  ros?: ROSLIB.Ros | null;
+  /** Subscribe only while true; defaults to true. */
+  enabled?: boolean;
+  /** Minimum time between delivered messages, in ms. */
+  throttleRate?: number;
+}
+
+export interface ServiceCallOptions {
+  /** Time to wait for a response before rejecting, in ms. */
+  timeout?: number;
 }
 
-export function useRos(options: UseRosOptions = {}) {
+export interface ActionGoalOptions<TFeedback> {
+  onFeedback?: (feedback: TFeedback) => void;
+  /** Time to wait for a result before rejecting, in ms. */
+  timeout?: number;
+}
+
+export interface ActionGoalHandle<TResult> {
+  result: Promise<TResult>;
+  cancel: () => void;
+}
+
+const MAX_PUBLISH_ATTEMPTS = 3;
+const DEFAULT_SERVICE_TIMEOUT = 5000;
+
+const defaultReconnectOptions: Required<ReconnectOptions> = {
+  enabled: true,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.3,
+  maxAttempts: Infinity,
+};
+
+export type RosConnection = ReturnType<typeof useRosConnection>;
+
+export interface RosContextValue extends RosConnection {
+  url: string;
+  setUrl: (url: string) => void;
+  /** Dialect used for message layout: the override, else the detected one. */
+  rosVersion: RosVersion;
+  rosVersionSetting: RosVersionSetting;
+  setRosVersionSetting: (setting: RosVersionSetting) => void;
+}
+
+export const RosContext = createContext<RosContextValue | null>(null);
+
+export function useRos() {
+  const context = useContext(RosContext);
+
+  if (!context) {
+    throw new Error('useRos must be used within a <RosProvider />');
+  }
+
+  return context;
+}
+
+export function useRosConnection(options: UseRosOptions = {}) {
   const [ros, setRos] = useState<ROSLIB.Ros | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const [status, setStatus] = useState<RosConnectionStatus>('disconnected');
   const [error, setError] = useState<string | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [nextRetryAt, setNextRetryAt] = useState<number | null>(null);
+  const [outbox, setOutbox] = useState<QueuedMessage[]>([]);
+  const [detectedRosVersion, setDetectedRosVersion] = useState<RosVersion | null>(null);
 
-  const { url = 'ws://localhost:9090' } = options;
+  const { url = 'ws://localhost:9090', reconnect } = options;
 
-  const connect = useCallback(() => {
-    if (isConnecting || isConnected) return;
+  const rosRef = useRef<ROSLIB.Ros | null>(null);
+  const statusRef = useRef<RosConnectionStatus>('disconnected');
+  const urlRef = useRef(url);
+  const reconnectOptionsRef = useRef(defaultReconnectOptions);
+  const shouldReconnectRef = useRef(false);
+  const attemptRef = useRef(0);
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const outboxRef = useRef<QueuedMessage[]>([]);
+  const isFlushingRef = useRef(false);
+  // Teardown callbacks for in-flight service calls and action goals
+  const pendingRequestsRef = useRef(new Set<() => void>());
 
-    setIsConnecting(true);
-    setError(null);
+  urlRef.current = url;
+  reconnectOptionsRef.current = { ...defaultReconnectOptions, ...reconnect };
+
+  const updateStatus = useCallback((next: RosConnectionStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const clearRetryTimer = useCallback(() => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    setNextRetryAt(null);
+  }, []);
 
+  const openConnection = useCallback(() => {
     const rosInstance = new ROSLIB.Ros({
-      url: url
+      url: urlRef.current
     });
 
+    const previous = rosRef.current;
+    rosRef.current = rosInstance;
+    previous?.close();
+
+    // roslib emits both `error` and `close` for a failed socket, so only the
+    // first one per instance may schedule a retry.
+    let hasDropped = false;
+
+    const handleDrop = () => {
+      if (hasDropped || rosRef.current !== rosInstance) return;
+      hasDropped = true;
+
+      const reconnectOptions = reconnectOptionsRef.current;
+      if (
+        !shouldReconnectRef.current ||
+        !reconnectOptions.enabled ||
+        attemptRef.current >= reconnectOptions.maxAttempts
+      ) {
+        updateStatus('disconnected');
+        return;
+      }
+
+      attemptRef.current += 1;
+      const delay = getReconnectDelay(attemptRef.current, reconnectOptions);
+      console.log(`Reconnecting in ${delay}ms (attempt ${attemptRef.current}).`);
+
+      setReconnectAttempt(attemptRef.current);
+      setNextRetryAt(Date.now() + delay);
+      updateStatus('reconnecting');
+
+      retryTimerRef.current = setTimeout(() => {
+        retryTimerRef.current = null;
+        setNextRetryAt(null);
+        openConnection();
+      }, delay);
+    };
+
     rosInstance.on('connection', () => {
+      if (rosRef.current !== rosInstance) return;
       console.log('Connected to websocket server.');
-      setIsConnected(true);
-      setIsConnecting(false);
+      attemptRef.current = 0;
+      setReconnectAttempt(0);
+      updateStatus('connected');
       setError(null);
+
+      detectRosVersion(rosInstance).then((version) => {
+        if (rosRef.current === rosInstance && version !== null) {
+          setDetectedRosVersion(version);
+        }
+      });
     });
 
     rosInstance.on('error', (error: any) => {
+      if (rosRef.current !== rosInstance) return;
       console.log('Error connecting to websocket server: ', error);
       setError(`Connection error: ${error.message || 'Unknown error'}`);
-      setIsConnecting(false);
-      setIsConnected(false);
+      handleDrop();
     });
 
     rosInstance.on('close', () => {
+      if (rosRef.current !== rosInstance) return;
       console.log('Connection to websocket server closed.');
-      setIsConnected(false);
-      setIsConnecting(false);
+      handleDrop();
     });
 
     setRos(rosInstance);
-  }, [url, isConnecting, isConnected]);
+  }, [updateStatus]);
+
+  const connect = useCallback(() => {
+    if (statusRef.current === 'connecting' || statusRef.current === 'connected') return;
+
+    shouldReconnectRef.current = true;
+    attemptRef.current = 0;
+    clearRetryTimer();
+    setReconnectAttempt(0);
+    setError(null);
+    updateStatus('connecting');
+
+    openConnection();
+  }, [clearRetryTimer, updateStatus, openConnection]);
 
   const disconnect = useCallback(() => {
-    if (ros) {
-      ros.close();
-      setRos(null);
-    }
-  }, [ros]);
+    shouldReconnectRef.current = false;
+    attemptRef.current = 0;
+    clearRetryTimer();
+    setReconnectAttempt(0);
+
+    const rosInstance = rosRef.current;
+    rosRef.current = null;
+    rosInstance?.close();
+    setRos(null);
+    updateStatus('disconnected');
+  }, [clearRetryTimer, updateStatus]);
+
+  const isConnected = status === 'connected';
 
   const publishMessage = useCallback((topicName: string, messageType: string, message: any) => {
     if (!ros || !isConnected) {
@@ -76,21 +268,272 @@ export function useRos(options: UseRosOptions = {}) {
     }
   }, [ros, isConnected]);
 
+  const callService = useCallback(<TRequest, TResponse>(
+    name: string,
+    serviceType: string,
+    request: TRequest,
+    { timeout = DEFAULT_SERVICE_TIMEOUT }: ServiceCallOptions = {}
+  ) => {
+    return new Promise<TResponse>((resolve, reject) => {
+      if (!ros || !isConnected) {
+        reject(new Error('ROS not connected. Cannot call service.'));
+        return;
+      }
+
+      const pendingRequests = pendingRequestsRef.current;
+      let timer: NodeJS.Timeout | null = null;
+
+      const settle = () => {
+        if (timer) clearTimeout(timer);
+        pendingRequests.delete(abandon);
+      };
+      const abandon = () => {
+        settle();
+        reject(new Error(`Service call to ${name} was abandoned.`));
+      };
+
+      pendingRequests.add(abandon);
+      timer = setTimeout(() => {
+        settle();
+        reject(new Error(`Service call to ${name} timed out after ${timeout}ms.`));
+      }, timeout);
+
+      const service = new ROSLIB.Service<TRequest, TResponse>({
+        ros: ros,
+        name: name,
+        serviceType: serviceType
+      });
+
+      service.callService(
+        request,
+        (response) => {
+          if (!pendingRequests.has(abandon)) return;
+          settle();
+          resolve(response);
+        },
+        (error) => {
+          if (!pendingRequests.has(abandon)) return;
+          settle();
+          reject(new Error(`Service call to ${name} failed: ${error}`));
+        }
+      );
+    });
+  }, [ros, isConnected]);
+
+  const sendActionGoal = useCallback(<TGoal, TFeedback, TResult>(
+    serverName: string,
+    actionName: string,
+    goalMessage: TGoal,
+    { onFeedback, timeout }: ActionGoalOptions<TFeedback> = {}
+  ): ActionGoalHandle<TResult> => {
+    if (!ros || !isConnected) {
+      return {
+        result: Promise.reject(new Error('ROS not connected. Cannot send action goal.')),
+        cancel: () => {}
+      };
+    }
+
+    const pendingRequests = pendingRequestsRef.current;
+    const actionClient = new ROSLIB.ActionClient({
+      ros: ros,
+      serverName: serverName,
+      actionName: actionName
+    });
+    const goal = new ROSLIB.Goal({
+      actionClient: actionClient,
+      goalMessage: goalMessage
+    });
+
+    let rejectResult: (error: Error) => void = () => {};
+    const settle = () => {
+      pendingRequests.delete(cancel);
+      actionClient.dispose();
+    };
+    const cancel = () => {
+      if (!pendingRequests.has(cancel)) return;
+      goal.cancel();
+      settle();
+      rejectResult(new Error(`Goal on ${serverName} was cancelled.`));
+    };
+
+    const result = new Promise<TResult>((resolve, reject) => {
+      rejectResult = reject;
+
+      goal.on('feedback', (feedback) => {
+        if (pendingRequests.has(cancel)) onFeedback?.(feedback);
+      });
+      goal.on('result', (goalResult) => {
+        if (!pendingRequests.has(cancel)) return;
+        settle();
+        resolve(goalResult);
+      });
+      goal.on('timeout', () => {
+        if (!pendingRequests.has(cancel)) return;
+        settle();
+        reject(new Error(`Goal on ${serverName} timed out.`));
+      });
+    });
+
+    pendingRequests.add(cancel);
+    goal.send(timeout);
+
+    return { result, cancel };
+  }, [ros, isConnected]);
+
+  const updateOutbox = useCallback((update: (prev: QueuedMessage[]) => QueuedMessage[]) => {
+    outboxRef.current = update(outboxRef.current);
+    setOutbox(outboxRef.current);
+  }, []);
+
+  const updateQueuedMessage = useCallback((id: string, changes: Partial<QueuedMessage>) => {
+    updateOutbox((prev) =>
+      prev.map((queued) => (queued.id === id ? { ...queued, ...changes } : queued))
+    );
+  }, [updateOutbox]);
+
+  // Queues a message for delivery; it is persisted until the bridge accepts it,
+  // so it survives both dropped connections and page reloads.
+  const queueMessage = useCallback((topicName: string, messageType: string, message: any) => {
+    const queued = createQueuedMessage(topicName, messageType, message);
+
+    updateOutbox((prev) => [...prev, queued]);
+    saveQueuedMessage(queued).catch((error) => {
+      console.error('Error persisting queued ROS message:', error);
+    });
+
+    return queued.id;
+  }, [updateOutbox]);
+
+  const flushQueue = useCallback(async () => {
+    if (isFlushingRef.current) return;
+    isFlushingRef.current = true;
+
+    try {
+      const pending = outboxRef.current.filter((queued) => queued.status === 'queued');
+
+      for (const queued of pending) {
+        if (statusRef.current !== 'connected') break;
+
+        if (publishMessage(queued.topicName, queued.messageType, queued.message)) {
+          updateQueuedMessage(queued.id, { status: 'sent', attempts: queued.attempts + 1 });
+          await removeQueuedMessage(queued.id);
+          continue;
+        }
+
+        const attempts = queued.attempts + 1;
+        if (attempts < MAX_PUBLISH_ATTEMPTS) {
+          // Keep delivery order: retry this message before any later ones
+          updateQueuedMessage(queued.id, { attempts });
+          await saveQueuedMessage({ ...queued, attempts });
+          break;
+        }
+
+        updateQueuedMessage(queued.id, { status: 'failed', attempts });
+        await removeQueuedMessage(queued.id);
+      }
+    } catch (error) {
+      console.error('Error flushing ROS publish queue:', error);
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [publishMessage, updateQueuedMessage]);
+
+  // Restore messages that were still pending when the page was closed
+  useEffect(() => {
+    loadQueuedMessages()
+      .then((stored) => {
+        updateOutbox((prev) => [
+          ...stored.filter((queued) => !prev.some((current) => current.id === queued.id)),
+          ...prev
+        ]);
+      })
+      .catch((error) => {
+        console.error('Error loading queued ROS messages:', error);
+      });
+  }, [updateOutbox]);
+
   useEffect(() => {
+    if (isConnected && outbox.some((queued) => queued.status === 'queued')) {
+      flushQueue();
+    }
+  }, [isConnected, outbox, flushQueue]);
+
+  useEffect(() => {
+    const pendingRequests = pendingRequestsRef.current;
+
     return () => {
-      if (ros) {
-        ros.close();
+      pendingRequests.forEach((teardown) => teardown());
+      shouldReconnectRef.current = false;
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
       }
+      rosRef.current?.close();
+      rosRef.current = null;
     };
-  }, [ros]);
+  }, []);
 
   return {
     ros,
+    status,
     isConnected,
-    isConnecting,
+    isConnecting: status === 'connecting',
+    isReconnecting: status === 'reconnecting',
+    reconnectAttempt,
+    nextRetryAt,
+    detectedRosVersion,
     error,
     connect,
     disconnect,
-    publishMessage
+    publishMessage,
+    queueMessage,
+    outbox,
+    callService,
+    sendActionGoal
   };
-}
\ No newline at end of file
+}
+
+export function useRosTopic<TMessage = any>(
+  name: string,
+  messageType: string,
+  handler: (message: TMessage) => void,
+  { ros: rosOverride, enabled = true, throttleRate }: UseRosTopicOptions = {}
+) {
+  const context = useContext(RosContext);
+  const ros = rosOverride !== undefined ? rosOverride : context?.ros ?? null;
+  const resolvedType = adaptTypeName(messageType, context?.rosVersion ?? DEFAULT_ROS_VERSION);
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!ros || !enabled) return;
+
+    const topic = new ROSLIB.Topic<TMessage>({
+      ros: ros,
+      name: name,
+      messageType: resolvedType,
+      throttle_rate: throttleRate
+    });
+    const handleMessage = (message: TMessage) => handlerRef.current(message);
+
+    try {
+      topic.subscribe(handleMessage);
+    } catch (error) {
+      console.error(`Error subscribing to ${name}:`, error);
+      return;
+    }
+
+    return () => {
+      topic.unsubscribe(handleMessage);
+    };
+  }, [ros, enabled, name, resolvedType, throttleRate]);
+}
+
+function getReconnectDelay(attempt: number, options: Required<ReconnectOptions>) {
+  const baseDelay = Math.min(
+    options.maxDelay,
+    options.initialDelay * Math.pow(options.multiplier, attempt - 1)
+  );
+  const jitter = Math.min(Math.max(options.jitter, 0), 1);
+
+  return Math.round(baseDelay * (1 - jitter * Math.random()));
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import * as ROSLIB from "roslib";
+import { useRos } from "./use-ros";
+import { CSS_PX_PER_MM } from "./screen-units";
+
+// Panels differ in how many CSS px make a millimetre, so the robot cell,
+// which knows the device model, can publish a measured figure.
+export const SCREEN_CALIBRATION_ROS_PARAM = "/phone_px_per_mm";
+export const SCREEN_CALIBRATION_QUERY_PARAM = "pxPerMm";
+const ROS_PARAM_TIMEOUT = 3000;
+
+export type ScreenCalibrationSource = "nominal" | "ros" | "url";
+
+export interface ScreenCalibration {
+  /** CSS px per physical millimetre. */
+  pxPerMm: number;
+  source: ScreenCalibrationSource;
+}
+
+function toPxPerMm(value: unknown): number | null {
+  const pxPerMm = typeof value === "string" ? Number(value) : value;
+  if (typeof pxPerMm !== "number" || !Number.isFinite(pxPerMm)) return null;
+  return pxPerMm > 0 ? pxPerMm : null;
+}
+
+/** Calibration passed as `?pxPerMm=<value>`, if any. */
+export function getScreenCalibrationFromUrl(
+  search = window.location.search
+): number | null {
+  const value = new URLSearchParams(search).get(
+    SCREEN_CALIBRATION_QUERY_PARAM
+  );
+  return value === null ? null : toPxPerMm(value);
+}
+
+/** Resolves to null when the parameter is unset or not a positive number. */
+export function readScreenCalibrationParam(
+  ros: ROSLIB.Ros
+): Promise<number | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), ROS_PARAM_TIMEOUT);
+    const param = new ROSLIB.Param({
+      ros,
+      name: SCREEN_CALIBRATION_ROS_PARAM,
+    });
+
+    param.get((value: unknown) => {
+      clearTimeout(timer);
+      const pxPerMm = toPxPerMm(value);
+      if (pxPerMm === null && value !== null && value !== undefined) {
+        console.warn(`Ignoring ${SCREEN_CALIBRATION_ROS_PARAM}:`, value);
+      }
+      resolve(pxPerMm);
+    });
+  });
+}
+
+/**
+ * The device's px-per-mm figure. `?pxPerMm=` beats the ROS parameter, which
+ * beats the nominal CSS 96 dpi.
+ */
+export function useScreenCalibration(): ScreenCalibration {
+  const { ros, isConnected } = useRos();
+  const [calibration, setCalibration] = useState<ScreenCalibration>({
+    pxPerMm: CSS_PX_PER_MM,
+    source: "nominal",
+  });
+
+  useEffect(() => {
+    const pxPerMm = getScreenCalibrationFromUrl();
+    if (pxPerMm !== null) setCalibration({ pxPerMm, source: "url" });
+  }, []);
+
+  useEffect(() => {
+    if (!ros || !isConnected) return;
+
+    let cancelled = false;
+    readScreenCalibrationParam(ros).then((pxPerMm) => {
+      if (cancelled || pxPerMm === null) return;
+      setCalibration((current) =>
+        current.source === "url" ? current : { pxPerMm, source: "ros" }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ros, isConnected]);
+
+  return calibration;
+}
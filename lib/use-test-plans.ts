@@ -0,0 +1,122 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRos } from "./use-ros";
+import { AnyTestPlugin } from "./test-plugin";
+import {
+  DEFAULT_TEST_PLAN_ID,
+  TestPlan,
+  TestPlanSource,
+  createDefaultTestPlan,
+  getTestPlanIdFromUrl,
+  loadTestPlans,
+  readTestPlanParam,
+} from "./test-plans";
+
+// A choice made on the home screen beats `?plan=`, which beats the ROS param
+const SOURCE_PRIORITY: Record<TestPlanSource, number> = {
+  default: 0,
+  ros: 1,
+  url: 2,
+  home: 3,
+};
+
+interface PlanSelection {
+  planId: string;
+  source: TestPlanSource;
+}
+
+function addPlan(plans: TestPlan[], plan: TestPlan) {
+  return [...plans.filter((existing) => existing.id !== plan.id), plan];
+}
+
+export function useTestPlans(plugins: AnyTestPlugin[]) {
+  const { ros, isConnected } = useRos();
+  const defaultPlan = useMemo(() => createDefaultTestPlan(plugins), [plugins]);
+
+  const [plans, setPlans] = useState<TestPlan[]>([defaultPlan]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<PlanSelection>({
+    planId: DEFAULT_TEST_PLAN_ID,
+    source: "default",
+  });
+
+  const select = useCallback((planId: string, source: TestPlanSource) => {
+    setSelection((current) =>
+      SOURCE_PRIORITY[source] >= SOURCE_PRIORITY[current.source]
+        ? { planId, source }
+        : current
+    );
+  }, []);
+
+  // Load the bundled profiles
+  useEffect(() => {
+    let cancelled = false;
+
+    loadTestPlans()
+      .then((loaded) => {
+        if (cancelled) return;
+        setPlans((current) => loaded.reduce(addPlan, current));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Pick up `?plan=<id>`
+  useEffect(() => {
+    const planId = getTestPlanIdFromUrl();
+    if (planId) select(planId, "url");
+  }, [select]);
+
+  // Ask the robot cell for its plan whenever we (re)connect
+  useEffect(() => {
+    if (!ros || !isConnected) return;
+
+    let cancelled = false;
+    readTestPlanParam(ros).then((value) => {
+      if (cancelled || value === null) return;
+
+      if (typeof value === "string") {
+        select(value, "ros");
+      } else {
+        setPlans((current) => addPlan(current, value));
+        select(value.id, "ros");
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ros, isConnected, select]);
+
+  const selectPlan = useCallback(
+    (planId: string) => select(planId, "home"),
+    [select]
+  );
+
+  const selectedPlan = plans.find((plan) => plan.id === selection.planId);
+  const error =
+    loadError ??
+    (!selectedPlan && !isLoading
+      ? `Unknown test plan "${selection.planId}", using the full suite`
+      : null);
+
+  return {
+    plans,
+    plan: selectedPlan ?? defaultPlan,
+    planSource: selectedPlan ? selection.source : "default",
+    selectPlan,
+    isLoading,
+    error,
+  };
+}
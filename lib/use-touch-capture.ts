@@ -0,0 +1,122 @@
+"use client";
+
+import { RefObject, useCallback, useRef, useState } from "react";
+import { PointerContact, TouchPoint } from "./test-results";
+import { useTouchLatency } from "./use-touch-latency";
+import { readPointerContact, summarizeForce } from "./pointer-contact";
+
+interface UseTouchCaptureOptions {
+  /** Element the touch coordinates are measured relative to. */
+  areaRef: RefObject<HTMLElement | null>;
+  /** Capture only while true. */
+  enabled: boolean;
+  /** Called once per new contact, with area-relative coordinates. */
+  onTouchDown?: (touch: TouchPoint) => void;
+}
+
+/**
+ * Contact capture shared by the touch tests, built on Pointer Events so
+ * fingers, pens and mice go through one pipeline: active contacts, touch
+ * history, the multi-touch high-water mark, latency and force samples.
+ */
+export function useTouchCapture({
+  areaRef,
+  enabled,
+  onTouchDown,
+}: UseTouchCaptureOptions) {
+  const [touches, setTouches] = useState<TouchPoint[]>([]);
+  const [currentTouches, setCurrentTouches] = useState<Map<number, TouchPoint>>(
+    new Map()
+  );
+  const [maxSimultaneous, setMaxSimultaneous] = useState(0);
+  const touchCountRef = useRef(0);
+  // Every down and move sample of a pressed contact
+  const contactsRef = useRef<PointerContact[]>([]);
+  const onTouchDownRef = useRef(onTouchDown);
+  onTouchDownRef.current = onTouchDown;
+
+  const { recordTouch, reset: resetLatency, getLatency } = useTouchLatency();
+
+  const reset = useCallback(() => {
+    setTouches([]);
+    setCurrentTouches(new Map());
+    setMaxSimultaneous(0);
+    touchCountRef.current = 0;
+    contactsRef.current = [];
+    resetLatency();
+  }, [resetLatency]);
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      if (!enabled) return;
+
+      const rect = areaRef.current?.getBoundingClientRect();
+      if (!rect) return;
+
+      e.preventDefault();
+      recordTouch(e);
+      const contact = readPointerContact(e);
+      contactsRef.current.push(contact);
+
+      const touchPoint: TouchPoint = {
+        id: e.pointerId,
+        x: e.clientX - rect.left,
+        y: e.clientY - rect.top,
+        timestamp: Date.now(),
+        contact,
+      };
+      const newTouches = new Map(currentTouches);
+      newTouches.set(e.pointerId, touchPoint);
+      touchCountRef.current++;
+      onTouchDownRef.current?.(touchPoint);
+
+      setCurrentTouches(newTouches);
+      setMaxSimultaneous((prev) => Math.max(prev, newTouches.size));
+      setTouches((prev) => [...prev, touchPoint]);
+    },
+    [enabled, currentTouches, recordTouch, areaRef]
+  );
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      if (!enabled) return;
+
+      e.preventDefault();
+      const newTouches = new Map(currentTouches);
+      newTouches.delete(e.pointerId);
+      setCurrentTouches(newTouches);
+    },
+    [enabled, currentTouches]
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (!enabled || !currentTouches.has(e.pointerId)) return;
+
+      e.preventDefault();
+      contactsRef.current.push(readPointerContact(e));
+    },
+    [enabled, currentTouches]
+  );
+
+  const getForce = useCallback(
+    () => summarizeForce(contactsRef.current),
+    []
+  );
+
+  return {
+    touches,
+    currentTouches,
+    maxSimultaneous,
+    touchCount: touchCountRef.current,
+    pointerHandlers: {
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerUp,
+      onPointerCancel: handlePointerUp,
+    },
+    reset,
+    getLatency,
+    getForce,
+  };
+}
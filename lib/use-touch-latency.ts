@@ -0,0 +1,70 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+import { useRosTopic } from "./use-ros";
+import { RosTime, rosTimeToMs } from "./ros-dialect";
+import {
+  ACTUATION_MESSAGE_TYPE,
+  ACTUATION_TOPIC,
+  createLatencySamples,
+  summarizeLatency,
+} from "./touch-latency";
+
+interface UseTouchLatencyOptions {
+  /** Record touches and listen for robot actuation stamps only while true. */
+  enabled?: boolean;
+}
+
+/**
+ * Measures touch latency from each event's own `timeStamp`: to the handler,
+ * to the presentation of the next frame and, when the robot publishes its actuation
+ * stamps on ACTUATION_TOPIC, end to end.
+ */
+export function useTouchLatency({ enabled = true }: UseTouchLatencyOptions = {}) {
+  const samplesRef = useRef(createLatencySamples());
+
+  useRosTopic<{ stamp: RosTime }>(
+    ACTUATION_TOPIC,
+    ACTUATION_MESSAGE_TYPE,
+    (message) => {
+      samplesRef.current.actuationTimes.push(rosTimeToMs(message.stamp));
+    },
+    { enabled }
+  );
+
+  const recordTouch = useCallback(
+    (event: React.SyntheticEvent | Event) => {
+      if (!enabled) return;
+
+      const handledAt = performance.now();
+      // Old WebKit reports epoch ms instead of a performance-clock timestamp
+      const eventTime =
+        event.timeStamp > 0 && event.timeStamp <= handledAt
+          ? event.timeStamp
+          : handledAt;
+      const samples = samplesRef.current;
+
+      samples.input.push(handledAt - eventTime);
+      samples.touchTimes.push(performance.timeOrigin + eventTime);
+      // The first callback runs before the frame reflecting the touch is
+      // painted; the second one's timestamp is when that frame was presented
+      requestAnimationFrame(() => {
+        requestAnimationFrame((presentedAt) => {
+          samples.frame.push(presentedAt - eventTime);
+        });
+      });
+    },
+    [enabled]
+  );
+
+  const reset = useCallback(() => {
+    samplesRef.current = createLatencySamples();
+  }, []);
+
+  const getLatency = useCallback(
+    () => summarizeLatency(samplesRef.current),
+    []
+  );
+
+  return { recordTouch, reset, getLatency };
+}
@@ -0,0 +1,208 @@
+// Stand-in rosbridge server speaking the rosbridge v2 JSON protocol.
+//
+//   npm run mock:rosbridge -- [--port 9090] [--scenario file.json] [--record file.jsonl]
+//
+// Published messages are kept in memory (and optionally appended to a JSONL
+// file), service calls are answered from the scenario, and scripted messages
+// such as `displayDefect_confirmed` are emitted on a timer.
+
+import { appendFileSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { WebSocketServer } from "ws";
+
+const DEFAULT_SCENARIO = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  "mock-rosbridge.scenario.json"
+);
+
+const options = parseArgs(process.argv.slice(2));
+const port = Number(options.port ?? process.env.MOCK_ROSBRIDGE_PORT ?? 9090);
+const scenario = loadScenario(options.scenario ?? DEFAULT_SCENARIO);
+const recordFile = options.record;
+
+const published = [];
+const topicTypes = new Map();
+const clients = new Set();
+
+const server = new WebSocketServer({ port });
+
+server.on("listening", () => {
+  log(`listening on ws://localhost:${port} (ROS ${scenario.rosVersion})`);
+});
+
+server.on("connection", (socket) => {
+  const client = { socket, subscriptions: new Map(), timers: new Set() };
+  clients.add(client);
+  log(`client connected (${clients.size} total)`);
+
+  for (const step of scenario.timeline.filter((step) => !step.trigger)) {
+    schedule(client, step);
+  }
+
+  socket.on("message", (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      log(`ignoring malformed frame: ${data}`);
+      return;
+    }
+    handleOperation(client, message);
+  });
+
+  socket.on("close", () => {
+    client.timers.forEach((timer) => clearTimeout(timer));
+    clients.delete(client);
+    log(`client disconnected (${clients.size} total)`);
+  });
+});
+
+function handleOperation(client, message) {
+  switch (message.op) {
+    case "advertise":
+      topicTypes.set(message.topic, message.type);
+      break;
+    case "unadvertise":
+    case "set_level":
+    case "status":
+      break;
+    case "subscribe":
+      client.subscriptions.set(message.id ?? message.topic, message.topic);
+      if (message.type) topicTypes.set(message.topic, message.type);
+      break;
+    case "unsubscribe":
+      client.subscriptions.delete(message.id ?? message.topic);
+      break;
+    case "publish":
+      handlePublish(client, message);
+      break;
+    case "call_service":
+      handleServiceCall(client, message);
+      break;
+    default:
+      log(`unsupported op "${message.op}"`);
+  }
+}
+
+function handlePublish(client, message) {
+  const record = {
+    receivedAt: new Date().toISOString(),
+    topic: message.topic,
+    type: topicTypes.get(message.topic) ?? null,
+    msg: message.msg,
+  };
+
+  published.push(record);
+  if (recordFile) appendFileSync(recordFile, `${JSON.stringify(record)}\n`);
+  log(`publish ${message.topic} ${summarize(message.msg)}`);
+
+  broadcast(message.topic, message.msg);
+
+  const payload = JSON.stringify(message.msg);
+  for (const step of scenario.timeline) {
+    const trigger = step.trigger;
+    if (!trigger || trigger.topic !== message.topic) continue;
+    if (trigger.contains && !payload.includes(trigger.contains)) continue;
+    schedule(client, step);
+  }
+}
+
+function handleServiceCall(client, message) {
+  const respond = (values, result = true) =>
+    send(client, {
+      op: "service_response",
+      id: message.id,
+      service: message.service,
+      values,
+      result,
+    });
+
+  if (message.service === "/mock_rosbridge/published") {
+    respond({ messages: JSON.stringify(published) });
+    return;
+  }
+  if (message.service === "/rosapi/topics") {
+    respond({
+      topics: [...topicTypes.keys()],
+      types: [...topicTypes.values()],
+    });
+    return;
+  }
+  if (message.service === "/rosapi/services") {
+    respond({ services: Object.keys(scenario.services) });
+    return;
+  }
+
+  if (!(message.service in scenario.services)) {
+    log(`call ${message.service} -> no such service`);
+    respond(`Service ${message.service} does not exist`, false);
+    return;
+  }
+
+  const response = scenario.services[message.service];
+  log(`call ${message.service} -> ${summarize(response)}`);
+  respond(response);
+}
+
+function schedule(client, step) {
+  const timer = setTimeout(() => {
+    client.timers.delete(timer);
+    topicTypes.set(step.publish.topic, step.publish.type);
+    log(`scripted ${step.publish.topic} ${summarize(step.publish.msg)}`);
+    broadcast(step.publish.topic, step.publish.msg);
+  }, step.delayMs ?? 0);
+
+  client.timers.add(timer);
+}
+
+function broadcast(topic, msg) {
+  for (const client of clients) {
+    for (const subscribedTopic of client.subscriptions.values()) {
+      if (subscribedTopic === topic) {
+        send(client, { op: "publish", topic, msg });
+        break;
+      }
+    }
+  }
+}
+
+function send(client, message) {
+  if (client.socket.readyState === client.socket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function loadScenario(path) {
+  const scenario = JSON.parse(readFileSync(path, "utf8"));
+  const rosVersion = scenario.rosVersion ?? 2;
+
+  return {
+    rosVersion,
+    timeline: scenario.timeline ?? [],
+    services: {
+      "/rosapi/get_ros_version": {
+        version: rosVersion,
+        distro: rosVersion === 1 ? "noetic" : "humble",
+      },
+      ...scenario.services,
+    },
+  };
+}
+
+function parseArgs(args) {
+  const parsed = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) parsed[args[i].slice(2)] = args[++i];
+  }
+  return parsed;
+}
+
+function summarize(value) {
+  const text = JSON.stringify(value) ?? "";
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+function log(message) {
+  console.log(`[mock-rosbridge] ${message}`);
+}